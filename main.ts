@@ -1,4 +1,4 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, TFile, requestUrl, Editor, moment, Modal, MarkdownView, MarkdownRenderer, Platform, ItemView, WorkspaceLeaf, TFolder } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, Notice, TFile, TextComponent, Menu, FrontMatterCache, requestUrl, Editor, moment, Modal, MarkdownView, MarkdownRenderer, Platform, ItemView, WorkspaceLeaf, TFolder, TAbstractFile, EventRef, loadPdfJs } from 'obsidian';
 const ExifReader = require('exif-reader');
 
 // Helper function to convert ArrayBuffer to Base64 (works on mobile)
@@ -12,8 +12,430 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
     return window.btoa(binary);
 }
 
+// Node's fs and path only exist on desktop, so they're loaded on demand rather than imported
+function nodeFs(): typeof import('fs') {
+    return require('fs');
+}
+
+function nodePath(): typeof import('path') {
+    return require('path');
+}
+
+function nodeOs(): typeof import('os') {
+    return require('os');
+}
+
+// Expand a leading ~ to the user's home directory
+function expandHomePath(folder: string): string {
+    const trimmed = folder.trim();
+    if (trimmed === '~' || trimmed.startsWith('~/') || trimmed.startsWith('~\\')) {
+        return nodePath().join(nodeOs().homedir(), trimmed.substring(1));
+    }
+    return trimmed;
+}
+
+// Hex SHA-256 of a file's contents, used to recognise inputs we've already processed
+async function hashArrayBuffer(buffer: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Image types accepted anywhere the plugin takes an image
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'heic', 'heif', 'tif', 'tiff'];
+
+function isImageExtension(extension: string): boolean {
+    return IMAGE_EXTENSIONS.includes(extension.toLowerCase());
+}
+
+// Identify a file's real format from its leading bytes, since extensions aren't reliable
+function sniffMimeType(data: ArrayBuffer): string | null {
+    const bytes = new Uint8Array(data.slice(0, 32));
+    const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+    if (ascii(0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+    if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'image/tiff';
+    if (ascii(0, 4) === '%PDF') return 'application/pdf';
+
+    // HEIF containers are ISO media files; the major brand says whether it's HEVC-coded (HEIC)
+    if (ascii(4, 8) === 'ftyp') {
+        const brand = ascii(8, 12);
+        if (['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx'].includes(brand)) return 'image/heic';
+        if (['mif1', 'msf1', 'heif'].includes(brand)) return 'image/heif';
+    }
+
+    return null;
+}
+
+// Obsidian runs on Chromium everywhere except iOS, and Chromium has no HEIC or TIFF decoder,
+// even where the operating system has one. Only iOS's WebKit can draw them.
+function canDecodeImage(mimeType: string): boolean {
+    return Platform.isIosApp || !['image/heic', 'image/heif', 'image/tiff'].includes(mimeType);
+}
+
+// Decode an image with the browser's decoders and draw it onto a canvas, scaled so its
+// longest edge is at most maxEdge (0 keeps the full size). Throws for formats canDecodeImage rules out.
+async function drawImageToCanvas(data: ArrayBuffer, mimeType: string, maxEdge = 0): Promise<HTMLCanvasElement> {
+    const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+    try {
+        const image = new Image();
+        image.src = url;
+        try {
+            await image.decode();
+        } catch (error) {
+            throw new Error(`${mimeType} images can't be converted on this device. Convert the file to JPEG or PNG and try again.`);
+        }
+
+        // naturalWidth/Height already have the EXIF orientation applied, and so does drawImage,
+        // so the canvas holds the upright image
+        const longestEdge = Math.max(image.naturalWidth, image.naturalHeight);
+        const scale = maxEdge > 0 && longestEdge > maxEdge ? maxEdge / longestEdge : 1;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.naturalWidth * scale);
+        canvas.height = Math.round(image.naturalHeight * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas is not available for image conversion');
+
+        // Transparent areas would turn black in a JPEG; flatten onto white
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        return canvas;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+async function canvasToArrayBuffer(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<ArrayBuffer> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+    if (!blob) throw new Error(`Failed to encode image as ${mimeType}`);
+    return await blob.arrayBuffer();
+}
+
+async function convertImageToPng(data: ArrayBuffer, mimeType: string): Promise<ArrayBuffer> {
+    return canvasToArrayBuffer(await drawImageToCanvas(data, mimeType), 'image/png');
+}
+
+// Rotate an image clockwise by a multiple of 90 degrees, returning a JPEG
+async function rotateImage(data: ArrayBuffer, degrees: number): Promise<ArrayBuffer> {
+    const turns = ((Math.round(degrees / 90) % 4) + 4) % 4;
+    if (turns === 0) return data;
+
+    const source = await drawImageToCanvas(data, sniffMimeType(data) || 'image/jpeg');
+    const canvas = document.createElement('canvas');
+    canvas.width = turns % 2 === 0 ? source.width : source.height;
+    canvas.height = turns % 2 === 0 ? source.height : source.width;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available for rotation');
+
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((turns * Math.PI) / 2);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvasToArrayBuffer(canvas, 'image/jpeg', 0.92);
+}
+
+// Read the EXIF orientation (1-8) from a JPEG, or 1 if it has none
+function readJpegOrientation(data: ArrayBuffer): number {
+    const view = new DataView(data);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        // APP1 segment holding "Exif\0\0" followed by a TIFF header
+        if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+            const tiff = offset + 10;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) break;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    return view.getUint16(entry + 8, little);
+                }
+            }
+            return 1;
+        }
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+        offset += 2 + length;
+    }
+    return 1;
+}
+
+// Render each page of a PDF to a PNG using Obsidian's bundled PDF.js
+async function renderPdfPages(pdfData: ArrayBuffer, maxEdge = 2000): Promise<ArrayBuffer[]> {
+    const pdfjs = await loadPdfJs();
+    // PDF.js may transfer the buffer to its worker, so hand it a copy
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(pdfData.slice(0)) }).promise;
+    const pages: ArrayBuffer[] = [];
+
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const baseViewport = page.getViewport({ scale: 1 });
+            const scale = maxEdge / Math.max(baseViewport.width, baseViewport.height);
+            const viewport = page.getViewport({ scale });
+
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(viewport.width);
+            canvas.height = Math.round(viewport.height);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('Canvas is not available for PDF rendering');
+
+            // Scanned pages often have transparent backgrounds; flatten onto white
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            await page.render({ canvasContext: ctx, viewport }).promise;
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) throw new Error(`Failed to render page ${i}`);
+            pages.push(await blob.arrayBuffer());
+        }
+    } finally {
+        pdf.destroy();
+    }
+
+    return pages;
+}
+
+async function getPdfPageCount(pdfData: ArrayBuffer): Promise<number> {
+    const pdfjs = await loadPdfJs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(pdfData.slice(0)) }).promise;
+    const count = pdf.numPages;
+    pdf.destroy();
+    return count;
+}
+
+// Document scanner. Corners are in source pixels, ordered top-left, top-right, bottom-right, bottom-left.
+
+// Find the page in a photo: threshold out the (usually darker) desk and take the extreme
+// points of what's left. Falls back to a slightly inset full frame if nothing page-like stands out.
+function detectDocumentCorners(source: HTMLCanvasElement): ScanPoint[] {
+    const scale = Math.min(1, 256 / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    const fallback = [
+        { x: source.width * 0.05, y: source.height * 0.05 },
+        { x: source.width * 0.95, y: source.height * 0.05 },
+        { x: source.width * 0.95, y: source.height * 0.95 },
+        { x: source.width * 0.05, y: source.height * 0.95 }
+    ];
+
+    const small = document.createElement('canvas');
+    small.width = width;
+    small.height = height;
+    const ctx = small.getContext('2d');
+    if (!ctx) return fallback;
+    ctx.drawImage(source, 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    const gray = new Uint8Array(width * height);
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = Math.round(0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]);
+        histogram[gray[i]]++;
+    }
+    const threshold = otsuThreshold(histogram, gray.length);
+
+    let topLeft = Infinity, bottomRight = -Infinity, topRight = -Infinity, bottomLeft = Infinity;
+    const corners = fallback.map(point => ({ x: point.x * scale, y: point.y * scale }));
+    let bright = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (gray[y * width + x] <= threshold) continue;
+            bright++;
+            if (x + y < topLeft) { topLeft = x + y; corners[0] = { x, y }; }
+            if (x - y > topRight) { topRight = x - y; corners[1] = { x, y }; }
+            if (x + y > bottomRight) { bottomRight = x + y; corners[2] = { x, y }; }
+            if (x - y < bottomLeft) { bottomLeft = x - y; corners[3] = { x, y }; }
+        }
+    }
+
+    const coverage = bright / gray.length;
+    if (coverage < 0.15 || coverage > 0.95) return fallback;
+    return corners.map(point => ({ x: point.x / scale, y: point.y / scale }));
+}
+
+function otsuThreshold(histogram: number[], total: number): number {
+    let sum = 0;
+    for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+    let sumBackground = 0, weightBackground = 0, best = 0, threshold = 127;
+    for (let i = 0; i < 256; i++) {
+        weightBackground += histogram[i];
+        if (weightBackground === 0) continue;
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+        sumBackground += i * histogram[i];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sum - sumBackground) / weightForeground;
+        const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (variance > best) {
+            best = variance;
+            threshold = i;
+        }
+    }
+    return threshold;
+}
+
+// Solve for the homography taking points in the output rectangle to the source quadrilateral
+function computeHomography(from: ScanPoint[], to: ScanPoint[]): number[] {
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x: u, y: v } = from[i];
+        const { x, y } = to[i];
+        rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+        rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < 8; row++) {
+            if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+        }
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        if (Math.abs(rows[col][col]) < 1e-10) throw new Error('Page corners do not form a quadrilateral');
+
+        for (let row = 0; row < 8; row++) {
+            if (row === col) continue;
+            const factor = rows[row][col] / rows[col][col];
+            for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+        }
+    }
+
+    return rows.map((row, i) => row[8] / row[i]);
+}
+
+// Flatten the quadrilateral in the source onto an upright rectangle
+function warpPerspective(source: HTMLCanvasElement, corners: ScanPoint[]): HTMLCanvasElement {
+    const distance = (a: ScanPoint, b: ScanPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+    const width = Math.round(Math.max(distance(corners[0], corners[1]), distance(corners[3], corners[2])));
+    const height = Math.round(Math.max(distance(corners[0], corners[3]), distance(corners[1], corners[2])));
+    if (width < 10 || height < 10) throw new Error('Selected page area is too small');
+
+    const h = computeHomography(
+        [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+        corners
+    );
+
+    const sourceCtx = source.getContext('2d');
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const outputCtx = output.getContext('2d');
+    if (!sourceCtx || !outputCtx) throw new Error('Canvas is not available for scanning');
+
+    const src = sourceCtx.getImageData(0, 0, source.width, source.height).data;
+    const result = outputCtx.createImageData(width, height);
+    const dst = result.data;
+
+    for (let v = 0; v < height; v++) {
+        for (let u = 0; u < width; u++) {
+            const w = h[6] * u + h[7] * v + 1;
+            const x = (h[0] * u + h[1] * v + h[2]) / w;
+            const y = (h[3] * u + h[4] * v + h[5]) / w;
+
+            // Bilinear sample so small handwriting stays smooth
+            const x0 = Math.max(0, Math.min(source.width - 2, Math.floor(x)));
+            const y0 = Math.max(0, Math.min(source.height - 2, Math.floor(y)));
+            const fx = Math.max(0, Math.min(1, x - x0));
+            const fy = Math.max(0, Math.min(1, y - y0));
+            const i00 = (y0 * source.width + x0) * 4;
+            const i10 = i00 + 4;
+            const i01 = i00 + source.width * 4;
+            const i11 = i01 + 4;
+            const out = (v * width + u) * 4;
+            for (let c = 0; c < 3; c++) {
+                const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+                const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+                dst[out + c] = top * (1 - fy) + bottom * fy;
+            }
+            dst[out + 3] = 255;
+        }
+    }
+
+    outputCtx.putImageData(result, 0, 0);
+    return output;
+}
+
+// 'enhance' stretches contrast so faint pencil reads clearly; 'binarize' gives black ink on white
+// using a local-mean threshold, which copes with shadows across the page
+function applyScanFilter(canvas: HTMLCanvasElement, filter: ScanFilter) {
+    if (filter === 'none') return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    const luminance = new Uint8Array(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+        luminance[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+
+    if (filter === 'enhance') {
+        const histogram = new Array(256).fill(0);
+        for (const value of luminance) histogram[value]++;
+
+        let low = 0, high = 255, count = 0;
+        for (let i = 0; i < 256; i++) {
+            count += histogram[i];
+            if (count >= luminance.length * 0.02) { low = i; break; }
+        }
+        count = 0;
+        for (let i = 255; i >= 0; i--) {
+            count += histogram[i];
+            if (count >= luminance.length * 0.02) { high = i; break; }
+        }
+        if (high <= low) return;
+
+        const range = high - low;
+        for (let i = 0; i < data.length; i += 4) {
+            for (let c = 0; c < 3; c++) {
+                data[i + c] = Math.max(0, Math.min(255, ((data[i + c] - low) * 255) / range));
+            }
+        }
+    } else {
+        // Integral image makes each window's mean a constant-time lookup
+        const integral = new Float64Array((width + 1) * (height + 1));
+        for (let y = 0; y < height; y++) {
+            let rowSum = 0;
+            for (let x = 0; x < width; x++) {
+                rowSum += luminance[y * width + x];
+                integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+            }
+        }
+
+        const radius = Math.max(8, Math.round(Math.max(width, height) / 32));
+        for (let y = 0; y < height; y++) {
+            const y1 = Math.max(0, y - radius), y2 = Math.min(height, y + radius + 1);
+            for (let x = 0; x < width; x++) {
+                const x1 = Math.max(0, x - radius), x2 = Math.min(width, x + radius + 1);
+                const sum = integral[y2 * (width + 1) + x2] - integral[y1 * (width + 1) + x2]
+                    - integral[y2 * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
+                const mean = sum / ((x2 - x1) * (y2 - y1));
+                const value = luminance[y * width + x] < mean * 0.88 ? 0 : 255;
+                const i = (y * width + x) * 4;
+                data[i] = data[i + 1] = data[i + 2] = value;
+            }
+        }
+    }
+
+    ctx.putImageData(image, 0, 0);
+}
+
 // Constants
 const GEMINI_CHAT_VIEW = 'gemini-chat-view';
+const FOLDER_MONITOR_VIEW = 'gemini-folder-monitor-view';
+const DEVICE_STORAGE_KEY = 'gemini-note-processor-device';
+const JOB_STORAGE_KEY = 'gemini-note-processor-jobs';
 
 // Interfaces
 interface GPSCoordinates {
@@ -21,6 +443,21 @@ interface GPSCoordinates {
     longitude: number;
 }
 
+interface ScanPoint {
+    x: number;
+    y: number;
+}
+
+type ScanFilter = 'none' | 'enhance' | 'binarize';
+
+// A page held in a capture session until the user has reviewed it
+interface CapturedPage {
+    data: ArrayBuffer;
+    name: string;
+    rotation: number; // degrees clockwise, applied when processing
+    pageNumber: number | null;
+}
+
 interface TriggerAction {
     keyword: string;
     action: string;
@@ -28,6 +465,14 @@ interface TriggerAction {
     enabled: boolean;
 }
 
+type ModelProviderId = 'gemini' | 'openai-compatible';
+
+interface OpenAICompatibleSettings {
+    baseUrl: string;
+    model: string;
+    apiKey: string;
+}
+
 interface Notebook {
     id: string;
     name: string;
@@ -38,23 +483,186 @@ interface Notebook {
     status: 'active' | 'completed' | 'archived';
     color?: string;
     description?: string;
+    provider?: ModelProviderId; // overrides the global provider when set
 }
 
 // Add these interfaces to your existing interfaces section
-interface FolderMonitorSettings {
+// One watched inbox folder and how its files are turned into notes
+interface FolderMonitorProfile {
+    id: string;
+    name: string;
     enabled: boolean;
+    paused: boolean; // paused from the dashboard: not checked automatically, but "Process now" still runs it
+    external: boolean; // desktop only: watchFolder (and processedFolder) are filesystem paths outside the vault
     watchFolder: string;
     filePattern: string;
     processedFolder: string;
     outputFolder: string;
     deleteAfterProcessing: boolean;
-    checkInterval: number; // in seconds
-    useNotebook: boolean;
-    notebookId: string;
+    notebookId: string; // empty for no notebook
     autoIncrementPages: boolean;
+    prompt: string; // empty to use the global prompt
+    tags: string; // comma-separated, added alongside the global custom tags
+    filenamePatterns: string; // regexes with named groups, one per line
     lastProcessedTime: number;
 }
 
+// A file the folder monitor has seen but not finished with
+interface MonitorQueueItem {
+    path: string;
+    profileId: string;
+    status: 'waiting' | 'queued' | 'processing'; // waiting = still syncing
+    since: number;
+}
+
+// A file that failed and is waiting for its next attempt
+interface MonitorRetryItem {
+    path: string;
+    profileId: string;
+    attempts: number;
+    nextAttemptAt: number;
+    error: string;
+}
+
+// A processed file that couldn't be moved to the Processed folder (or deleted)
+interface MonitorUnmovedItem {
+    path: string;
+    profileId: string;
+    source: MonitorSource;
+    error: string;
+}
+
+// Values read from a scanner filename by a profile's filename patterns
+interface FilenameMetadata {
+    notebook: Notebook | null;
+    unknownNotebook: string | null; // named in the filename but not found; its page number is ignored
+    page: number | null;
+    date: string | null; // YYYY-MM-DD
+    tags: string[];
+}
+
+interface FolderMonitorSettings {
+    enabled: boolean;
+    checkInterval: number; // in seconds
+    usePolling: boolean; // periodic scan as a fallback for missed vault events
+    stabilitySeconds: number; // how long a file's size must stay unchanged before processing
+    pdfMode: 'rasterize' | 'inline';
+    maxAttempts: number; // attempts per file before it is quarantined
+    failedFolder: string;
+    failureLogPath: string;
+    hostDeviceId: string; // empty lets any device monitor
+    devices: MonitorDevice[]; // every device that has run the plugin on this vault
+    lockFolder: string;
+    lockMinutes: number;
+    profiles: FolderMonitorProfile[];
+}
+
+interface MonitorDevice {
+    id: string;
+    name: string;
+}
+
+// A device's claim on one monitored file, written to the lock folder so other devices on a synced vault skip it
+interface MonitorLock {
+    deviceId: string;
+    deviceName: string;
+    path: string;
+    claimedAt: number;
+    expiresAt: number;
+}
+
+// A file picked up by a profile: a vault file, or an absolute filesystem path for external profiles
+type MonitorSource = TFile | string;
+
+// A monitored file that kept failing and was moved to the Failed folder
+interface QuarantinedFile {
+    path: string;
+    originalPath: string; // a filesystem path when external is set
+    external?: boolean;
+    profileId: string;
+    category: GeminiErrorCategory | 'unknown';
+    message: string;
+    attempts: number;
+    failedAt: number;
+}
+
+// One input the folder monitor has already turned into notes, keyed by content hash
+interface ProcessedLedgerEntry {
+    hash: string;
+    profileId?: string; // missing on entries recorded before profiles existed
+    sourcePath: string;
+    notePaths: string[];
+    model: string;
+    processedAt: number;
+}
+
+// Work queued for the background job queue. Everything needed to run it must survive a restart,
+// so images are referenced by vault path and notebooks by id. detectedPage is set by the job when the
+// number written on the page differs from pageNumber, for the foreground flow to offer.
+type ProcessingJobParams =
+    | { kind: 'capture'; imagePath: string; notebookId: string | null; pageNumber: number | null; quiet: boolean; placeholderPath?: string; preprocessed?: boolean; locationTag?: string | null; detectedPage?: number }
+    | { kind: 'existing'; imagePath: string; notebookId: string | null; pageNumber: number | null; createNewNote: boolean; targetNotePath: string | null; detectedPage?: number }
+    | { kind: 'monitor'; profileId: string; sourcePath: string; external: boolean; force?: boolean };
+
+// 'waiting' jobs are held until the device is back online
+type ProcessingJobStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+interface ProcessingJob {
+    id: string;
+    key: string; // identifies the input, so the same file isn't queued twice
+    group: string | null; // jobs in the same group run one at a time, in order
+    label: string;
+    status: ProcessingJobStatus;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    result?: string;
+    error?: string;
+    params: ProcessingJobParams;
+}
+
+// Typed result returned by Gemini when structured (JSON) output is enabled
+interface StructuredTask {
+    text: string;
+    priority: 'high' | 'medium' | 'low' | 'none';
+    due?: string | null;
+    scheduled?: string | null;
+    start?: string | null;
+}
+
+interface StructuredResearchItem {
+    name: string;
+    description: string;
+    url?: string | null;
+}
+
+interface StructuredNoteResult {
+    title: string;
+    transcript: string;
+    summary: string[];
+    tasks: StructuredTask[];
+    tags: string[];
+    research?: StructuredResearchItem[];
+    pageNumber?: number | null;
+    pageDate?: string | null;
+}
+
+// Output of the note pipeline, whichever response mode produced it
+interface ProcessedNote {
+    markdown: string;
+    tags: string[];
+    title: string | null;
+    pageNumber?: number | null; // written on the page itself, when page detection is on
+    pageDate?: string | null; // YYYY-MM-DD
+}
+
+// How the file handed to the note pipeline should be sent to the model
+interface ImageRequestOptions {
+    mimeType?: string;
+    preprocessed?: boolean; // the caller already ran preprocessImage
+    instructions?: string; // prepended to the prompt, e.g. which page of a PDF to read
+    prompt?: string; // replaces the configured prompt; in structured mode it's added as extra instructions
+}
 
 const DEFAULT_TRIGGER_ACTIONS: TriggerAction[] = [
     { keyword: 'Research', action: 'research', requiresList: true, enabled: true },
@@ -104,9 +712,94 @@ If no tasks are found, write "None identified."]
 ### Detected Tags
 [Identify any hashtags (e.g., #idea, #meeting) in the text. List them here as a comma-separated list, without the '#' symbol. For example: idea, meeting, project-alpha. If none are found, write "None identified."]`;
 
+const STRUCTURED_GEMINI_PROMPT = `You are an expert note-processing assistant integrated into Obsidian. I am providing you with an image of a handwritten note.
+Respond only with a JSON object that matches the provided response schema.
+
+- title: a short descriptive title for the note (at most 8 words).
+- transcript: a full, verbatim transcript of the text in Markdown. If a word appears underlined, format it as <u>word</u>. Maintain numbered or bulleted lists and the structure of the original note.
+- summary: concise bullet points of the key points, one per array item, without leading dashes.
+- tasks: every actionable task or to-do item. Set priority from markers (!!! = high, !! = medium, ! = low, otherwise none). Resolve any due, scheduled or start dates mentioned (e.g. "by Friday", "on the 15th", "start next week") to YYYY-MM-DD, or leave them null.
+- tags: any hashtags written in the note, without the '#' symbol.`;
+
+const STRUCTURED_RESEARCH_PROMPT = `
+- research: product names, technologies or key concepts mentioned in the note, each with a one-sentence description and a relevant URL (official website or Wikipedia page).`;
+
+const STRUCTURED_PAGE_INFO_PROMPT = `
+- page_number: the page number printed or written on the page, usually in a corner or the header or footer. Leave it null if there isn't one; don't guess from the content.
+- page_date: the date written on the page (e.g. in a date field at the top), as YYYY-MM-DD, or null if there isn't one.`;
+
+const MARKDOWN_PAGE_INFO_PROMPT = `
+
+### Page Info
+[If a page number is printed or written on the page (usually in a corner, header or footer), write "Page: <number>". If a date is written on the page, write "Date: <YYYY-MM-DD>". Put each on its own line. Don't guess from the content. If neither is present, write "None identified."]`;
+
+function buildStructuredNoteSchema(includeResearch: boolean, includePageInfo = false): object {
+    const nullableDate = { type: 'STRING', nullable: true, description: 'Date as YYYY-MM-DD' };
+    const properties: Record<string, object> = {
+        title: { type: 'STRING' },
+        transcript: { type: 'STRING' },
+        summary: { type: 'ARRAY', items: { type: 'STRING' } },
+        tasks: {
+            type: 'ARRAY',
+            items: {
+                type: 'OBJECT',
+                properties: {
+                    text: { type: 'STRING' },
+                    priority: { type: 'STRING', enum: ['high', 'medium', 'low', 'none'] },
+                    due: nullableDate,
+                    scheduled: nullableDate,
+                    start: nullableDate
+                },
+                required: ['text', 'priority']
+            }
+        },
+        tags: { type: 'ARRAY', items: { type: 'STRING' } }
+    };
+    const ordering = ['title', 'transcript', 'summary', 'tasks', 'tags'];
+
+    if (includeResearch) {
+        properties.research = {
+            type: 'ARRAY',
+            items: {
+                type: 'OBJECT',
+                properties: {
+                    name: { type: 'STRING' },
+                    description: { type: 'STRING' },
+                    url: { type: 'STRING', nullable: true }
+                },
+                required: ['name', 'description']
+            }
+        };
+        ordering.push('research');
+    }
+
+    if (includePageInfo) {
+        properties.page_number = { type: 'INTEGER', nullable: true };
+        properties.page_date = nullableDate;
+        ordering.push('page_number', 'page_date');
+    }
+
+    return {
+        type: 'OBJECT',
+        properties,
+        required: ['title', 'transcript', 'summary', 'tasks', 'tags'],
+        propertyOrdering: ordering
+    };
+}
+
+interface ImagePreprocessingSettings {
+    enabled: boolean;
+    maxEdge: number; // pixels on the longest side
+    quality: number; // JPEG quality, 0-1
+    keepOriginal: boolean; // attach the untouched original rather than the resized copy
+}
+
 interface GeminiNoteProcessorSettings {
     geminiApiKey: string;
     selectedModel: string;
+    apiMaxRetries: number;
+    modelProvider: ModelProviderId;
+    openAICompatible: OpenAICompatibleSettings;
     customTags: string;
     enableDeepResearch: boolean;
     newNoteLocation: string;
@@ -122,21 +815,40 @@ interface GeminiNoteProcessorSettings {
     insertPageNumbers: boolean;
     groupByNotebook: boolean;
     notebookFolderPattern: string;
+    enableNotebookIndex: boolean;
+    notebookIndexFolder: string;
+    detectPageInfo: boolean;
     androidCameraMode: 'camera' | 'gallery' | 'ask';
+    enableDocumentScanner: boolean;
+    scannerFilter: ScanFilter;
+    reviewBeforeProcessing: boolean;
     enableTasksIntegration: boolean;
     tasksNotePath: string;
     tasksSectionHeading: string;
     taskPriorities: boolean;
     defaultTaskTags: string;
     geminiPrompt: string;
+    useStructuredOutput: boolean;
     enableDiscussionLinks: boolean;
     discussionLinkText: string;
+    enableChatStreaming: boolean;
+    imagePreprocessing: ImagePreprocessingSettings;
     folderMonitor: FolderMonitorSettings;
+    processedLedger: ProcessedLedgerEntry[];
+    quarantinedFiles: QuarantinedFile[];
+    jobConcurrency: number;
 }
 
 const DEFAULT_SETTINGS: GeminiNoteProcessorSettings = {
     geminiApiKey: '',
     selectedModel: 'gemini-2.5-flash-preview-05-20',
+    apiMaxRetries: 3,
+    modelProvider: 'gemini',
+    openAICompatible: {
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llava',
+        apiKey: ''
+    },
     customTags: 'sketchnote, from-notebook',
     enableDeepResearch: false,
     newNoteLocation: 'Gemini Scans/YYYY',
@@ -152,661 +864,3229 @@ const DEFAULT_SETTINGS: GeminiNoteProcessorSettings = {
     insertPageNumbers: true,
     groupByNotebook: true,
     notebookFolderPattern: 'Notebooks/{notebook}',
+    enableNotebookIndex: true,
+    notebookIndexFolder: 'Notebooks',
+    detectPageInfo: true,
     androidCameraMode: 'ask',
+    enableDocumentScanner: true,
+    scannerFilter: 'enhance',
+    reviewBeforeProcessing: false,
     enableTasksIntegration: false,
     tasksNotePath: 'Tasks/Inbox.md',
     tasksSectionHeading: '## Captured Tasks',
     taskPriorities: true,
     defaultTaskTags: '#task',
     geminiPrompt: DEFAULT_GEMINI_PROMPT,
+    useStructuredOutput: false,
     enableDiscussionLinks: true,
     discussionLinkText: '💬 Discuss this note with Gemini',
+    enableChatStreaming: true,
+    imagePreprocessing: {
+        enabled: true,
+        maxEdge: 2048,
+        quality: 0.85,
+        keepOriginal: true
+    },
     folderMonitor: {
         enabled: false,
-        watchFolder: 'Inbox',
-        filePattern: 'scan-*',
-        processedFolder: 'Inbox/Processed',
-        outputFolder: 'Gemini Scans/Auto-Processed',
-        deleteAfterProcessing: false,
         checkInterval: 30,
-        useNotebook: false,
-        notebookId: '',
-        autoIncrementPages: true,
-        lastProcessedTime: 0
+        usePolling: true,
+        stabilitySeconds: 3,
+        pdfMode: 'rasterize',
+        maxAttempts: 3,
+        failedFolder: 'Inbox/Failed',
+        failureLogPath: 'Inbox/Failed/Failure Log.md',
+        hostDeviceId: '',
+        devices: [],
+        lockFolder: 'Inbox/Locks',
+        lockMinutes: 10,
+        profiles: []
+    },
+    processedLedger: [],
+    quarantinedFiles: [],
+    jobConcurrency: 1,
+}
+
+// Model API errors (shared by every provider; the names predate the provider abstraction)
+type GeminiErrorCategory = 'quota' | 'auth' | 'safety' | 'malformed' | 'network' | 'server' | 'request';
+
+class GeminiError extends Error {
+    category: GeminiErrorCategory;
+    status: number | null;
+    retryable: boolean;
+    retryAfterMs: number | null = null;
+    provider = 'Gemini';
+
+    constructor(message: string, category: GeminiErrorCategory, status: number | null = null, retryable = false) {
+        super(message);
+        this.name = 'GeminiError';
+        this.category = category;
+        this.status = status;
+        this.retryable = retryable;
     }
 }
 
-// Chat View Class
-export class GeminiChatView extends ItemView {
-    plugin: GeminiNoteProcessor;
-    noteContent: string;
-    sourceFile: TFile | null;
-    chatContainer: HTMLElement;
-    inputField: HTMLTextAreaElement;
-    sendButton: HTMLButtonElement;
-    sourceFileDisplay: HTMLElement;
+class GeminiQuotaError extends GeminiError {
+    constructor(message: string, status: number | null = 429) {
+        super(message, 'quota', status, true);
+        this.name = 'GeminiQuotaError';
+    }
+}
 
-    constructor(leaf: WorkspaceLeaf, plugin: GeminiNoteProcessor) {
-        super(leaf);
-        this.plugin = plugin;
-        this.noteContent = '';
-        this.sourceFile = null;
+class GeminiAuthError extends GeminiError {
+    constructor(message: string, status: number | null = null) {
+        super(message, 'auth', status, false);
+        this.name = 'GeminiAuthError';
     }
+}
 
-    getViewType() {
-        return GEMINI_CHAT_VIEW;
+class GeminiSafetyError extends GeminiError {
+    reason: string;
+
+    constructor(message: string, reason: string) {
+        super(message, 'safety', null, false);
+        this.name = 'GeminiSafetyError';
+        this.reason = reason;
     }
+}
 
-    getDisplayText() {
-        return 'Gemini Chat';
+class GeminiMalformedResponseError extends GeminiError {
+    constructor(message: string) {
+        super(message, 'malformed', null, false);
+        this.name = 'GeminiMalformedResponseError';
     }
+}
 
-    getIcon() {
-        return 'message-circle';
+// Thrown by a job that can't run yet (e.g. no connection); the job queue parks it rather than failing it
+class JobDeferredError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JobDeferredError';
     }
+}
 
-    async onOpen() {
-        const containerEl = this.containerEl.children[1];
-        if (!(containerEl instanceof HTMLElement)) {
-            console.error('Container element is not an HTMLElement');
-            return;
-        }
-        const container = containerEl;
-        container.empty();
-        container.addClass('gemini-chat-view');
+// A processing run failed and what it had written was cleaned up; the message says what was undone
+class ProcessingFailedError extends Error {
+    original: unknown;
 
-        // Create chat UI
-        this.createChatInterface(container);
+    constructor(original: unknown, cleanup: string[]) {
+        super(`${describeGeminiError(original)}${cleanup.length > 0 ? ` Cleaned up: ${cleanup.join(', ')}.` : ''}`);
+        this.name = 'ProcessingFailedError';
+        this.original = original;
+    }
+}
 
-        // Load current note if available
-        const activeFile = this.app.workspace.getActiveFile();
-        if (activeFile) {
-            await this.loadNote(activeFile);
+// Turn any error thrown while talking to a model into a sentence the user can act on
+function describeGeminiError(error: unknown): string {
+    if (error instanceof GeminiError) {
+        const provider = error.provider;
+        switch (error.category) {
+            case 'quota':
+                return provider === 'Gemini'
+                    ? 'Gemini rate limit or quota exceeded. Wait a moment and try again, or check your quota in Google AI Studio.'
+                    : `${provider} rate limit exceeded. Wait a moment and try again.`;
+            case 'auth':
+                return `${provider} rejected the API key. Check the key in settings and that it has access to the selected model.`;
+            case 'safety':
+                return `${provider} blocked the response for safety reasons (${(error as GeminiSafetyError).reason}).`;
+            case 'malformed':
+                return `${provider} returned a response that could not be read. Try again or switch models.`;
+            case 'network':
+                return `Could not reach ${provider}. Check your internet connection${provider === 'Gemini' ? '' : ' and the endpoint URL'}.`;
+            case 'server':
+                return `${provider} is temporarily unavailable (HTTP ${error.status}). Try again later.`;
+            default:
+                return error.message;
         }
     }
+    return error instanceof Error ? error.message : String(error);
+}
 
-    createChatInterface(container: HTMLElement) {
-        // Make container flex
-        container.style.cssText = `
-            display: flex;
-            flex-direction: column;
-            height: 100%;
-        `;
+interface GeminiRequestOptions {
+    model?: string;
+    maxRetries?: number;
+}
 
-        // Header
-        const header = container.createDiv({ cls: 'gemini-chat-header' });
-        header.style.cssText = `
-            padding: 10px;
-            border-bottom: 1px solid var(--background-modifier-border);
-            background: var(--background-secondary);
-            flex-shrink: 0;
-        `;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
 
-        const titleEl = header.createEl('h4', { text: 'Chat with Gemini' });
-        titleEl.style.cssText = 'margin: 0; font-size: 14px;';
+function getBackoffDelay(attempt: number): number {
+    const exponential = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+    const jitter = Math.random() * RETRY_BASE_DELAY_MS;
+    return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS);
+}
 
-        this.sourceFileDisplay = header.createEl('div', {
-            cls: 'source-file',
-            text: 'No note loaded'
-        });
-        this.sourceFileDisplay.style.cssText = `
-            font-size: 11px;
-            color: var(--text-muted);
-            margin-top: 4px;
-        `;
+function parseRetryAfter(headers: Record<string, string>): number | null {
+    const key = Object.keys(headers || {}).find(h => h.toLowerCase() === 'retry-after');
+    if (!key) return null;
 
-        // Chat messages container
-        this.chatContainer = container.createDiv({ cls: 'gemini-chat-messages' });
-        this.chatContainer.style.cssText = `
-            flex: 1;
-            overflow-y: auto;
-            padding: 15px;
-            display: flex;
-            flex-direction: column;
-            gap: 10px;
-        `;
+    const value = headers[key].trim();
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+    }
 
-        // Input area at bottom
-        const inputArea = container.createDiv({ cls: 'gemini-chat-input' });
-        inputArea.style.cssText = `
-            padding: 10px;
-            border-top: 1px solid var(--background-modifier-border);
-            background: var(--background-primary);
-            flex-shrink: 0;
-        `;
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.min(Math.max(date - Date.now(), 0), RETRY_MAX_DELAY_MS);
+    }
+    return null;
+}
 
-        // Quick actions
-        const quickActions = inputArea.createDiv({ cls: 'quick-actions' });
-        quickActions.style.cssText = `
+// Run an API attempt, retrying retryable errors with exponential backoff (or the server's Retry-After)
+async function withRetries<T>(maxRetries: number, label: string, attempt: () => Promise<T>): Promise<T> {
+    for (let i = 0; ; i++) {
+        try {
+            return await attempt();
+        } catch (error) {
+            if (!(error instanceof GeminiError) || !error.retryable || i >= maxRetries) {
+                throw error;
+            }
+            const delay = error.retryAfterMs ?? getBackoffDelay(i);
+            console.log(`${label} failed (${error.message}), retrying in ${delay}ms (attempt ${i + 1}/${maxRetries})`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
+
+// Parsed JSON as an object whose fields are still to be checked, or null if it isn't one
+function jsonRecord(value: unknown): Record<string, unknown> | null {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+type ErrorFromResponse = (status: number, body: unknown, headers: Record<string, string>) => GeminiError;
+
+function networkError(error: unknown, provider: string): GeminiError {
+    const networkFailure = new GeminiError(error instanceof Error ? error.message : String(error), 'network', null, true);
+    networkFailure.provider = provider;
+    return networkFailure;
+}
+
+// POST JSON through requestUrl (no CORS restrictions) and return the parsed body, or throw a typed error
+async function postJson(url: string, body: object, headers: Record<string, string>, provider: string, errorFromResponse: ErrorFromResponse): Promise<unknown> {
+    let response;
+    try {
+        response = await requestUrl({
+            url,
+            method: 'POST',
+            contentType: 'application/json',
+            headers,
+            body: JSON.stringify(body),
+            throw: false
+        });
+    } catch (error) {
+        throw networkError(error, provider);
+    }
+
+    let json: unknown = null;
+    try {
+        json = response.json;
+    } catch (e) {
+        // Non-JSON body (e.g. an HTML error page from a proxy)
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+        return json;
+    }
+    throw errorFromResponse(response.status, json, response.headers);
+}
+
+// POST JSON with fetch and return the response body as a stream, or throw a typed error
+async function openStream(url: string, body: object, headers: Record<string, string>, signal: AbortSignal | undefined, provider: string, errorFromResponse: ErrorFromResponse): Promise<ReadableStream<Uint8Array>> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+            signal
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw networkError(error, provider);
+    }
+
+    if (response.ok && response.body) {
+        return response.body;
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => { responseHeaders[key] = value; });
+    let json: unknown = null;
+    try {
+        json = await response.json();
+    } catch (e) {
+        // Non-JSON error body
+    }
+    throw errorFromResponse(response.status, json, responseHeaders);
+}
+
+// Read a server-sent events stream, passing the data of each event to onData
+async function readSseStream(stream: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleEvent = (event: string) => {
+        const data = event.split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('');
+        if (data) onData(data);
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        events.forEach(handleEvent);
+    }
+    handleEvent(buffer + decoder.decode());
+}
+
+// Shared Gemini client with retry, backoff and rate-limit handling
+class GeminiClient {
+    private plugin: GeminiNoteProcessor;
+    private static readonly BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+    constructor(plugin: GeminiNoteProcessor) {
+        this.plugin = plugin;
+    }
+
+    private buildUrl(model: string, method: string): string {
+        return `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?key=${this.plugin.settings.geminiApiKey}`;
+    }
+
+    // Send a generateContent request and return the text of the first candidate
+    async generateContent(requestBody: object, options: GeminiRequestOptions = {}): Promise<string> {
+        const json = await this.request('generateContent', requestBody, options);
+        return this.extractText(json);
+    }
+
+    async request(method: string, requestBody: object, options: GeminiRequestOptions = {}): Promise<unknown> {
+        if (!this.plugin.settings.geminiApiKey) {
+            throw new GeminiAuthError('Gemini API key is not set.');
+        }
+
+        const model = options.model || this.plugin.settings.selectedModel;
+        const maxRetries = options.maxRetries ?? this.plugin.settings.apiMaxRetries;
+        const url = this.buildUrl(model, method);
+
+        return withRetries(maxRetries, 'Gemini request', () =>
+            postJson(url, requestBody, {}, 'Gemini', (status, body, headers) => this.errorFromResponse(status, body, headers)));
+    }
+
+    private errorFromResponse(status: number, body: unknown, headers: Record<string, string>): GeminiError {
+        const apiError = jsonRecord(jsonRecord(body)?.error);
+        const apiStatus = typeof apiError?.status === 'string' ? apiError.status : '';
+        const message = typeof apiError?.message === 'string' && apiError.message ? apiError.message : `HTTP ${status}`;
+        const details = apiError?.details;
+        const keyInvalid = Array.isArray(details) && details.some(detail => jsonRecord(detail)?.reason === 'API_KEY_INVALID');
+
+        let error: GeminiError;
+        if (status === 429 || apiStatus === 'RESOURCE_EXHAUSTED') {
+            error = new GeminiQuotaError(message, status);
+        } else if (status === 401 || status === 403 || keyInvalid || apiStatus === 'UNAUTHENTICATED' || apiStatus === 'PERMISSION_DENIED') {
+            error = new GeminiAuthError(message, status);
+        } else if (status >= 500 || status === 408) {
+            error = new GeminiError(message, 'server', status, true);
+        } else {
+            error = new GeminiError(message, 'request', status, false);
+        }
+
+        error.retryAfterMs = parseRetryAfter(headers);
+        return error;
+    }
+
+    // Stream a generateContent request over SSE, calling onText with each chunk of text as it arrives.
+    // Resolves with the full text; if the signal is aborted the fetch rejects and the caller keeps what it has.
+    async streamContent(requestBody: object, onText: (text: string) => void, signal?: AbortSignal, options: GeminiRequestOptions = {}): Promise<string> {
+        if (!this.plugin.settings.geminiApiKey) {
+            throw new GeminiAuthError('Gemini API key is not set.');
+        }
+
+        const model = options.model || this.plugin.settings.selectedModel;
+        const maxRetries = options.maxRetries ?? this.plugin.settings.apiMaxRetries;
+        const url = `${this.buildUrl(model, 'streamGenerateContent')}&alt=sse`;
+
+        // Only opening the stream is retried: once text has started flowing the caller has already shown part of the answer
+        const stream = await withRetries(maxRetries, 'Gemini stream', () =>
+            openStream(url, requestBody, {}, signal, 'Gemini', (status, body, headers) => this.errorFromResponse(status, body, headers)));
+
+        let fullText = '';
+        await readSseStream(stream, (data) => {
+            let json: unknown;
+            try {
+                json = JSON.parse(data);
+            } catch (e) {
+                throw new GeminiMalformedResponseError('Stream contained an unreadable event.');
+            }
+
+            const text = this.extractChunkText(json);
+            if (text) {
+                fullText += text;
+                onText(text);
+            }
+        });
+
+        if (!fullText) {
+            throw new GeminiMalformedResponseError('Stream contained no text.');
+        }
+        return fullText;
+    }
+
+    private firstCandidate(json: unknown): Record<string, unknown> | null {
+        const candidates = jsonRecord(json)?.candidates;
+        return Array.isArray(candidates) ? jsonRecord(candidates[0]) : null;
+    }
+
+    private blockReason(json: unknown): string | null {
+        const reason = jsonRecord(jsonRecord(json)?.promptFeedback)?.blockReason;
+        return typeof reason === 'string' && reason ? reason : null;
+    }
+
+    // Text of one response (or stream chunk); throws if Gemini blocked it
+    private extractChunkText(json: unknown): string {
+        const blockReason = this.blockReason(json);
+        if (blockReason) {
+            throw new GeminiSafetyError(`Prompt blocked: ${blockReason}`, blockReason);
+        }
+
+        const candidate = this.firstCandidate(json);
+        const parts = jsonRecord(candidate?.content)?.parts;
+        const text = (Array.isArray(parts) ? parts : []).map(part => {
+            const partText = jsonRecord(part)?.text;
+            return typeof partText === 'string' ? partText : '';
+        }).join('');
+
+        const finishReason = candidate?.finishReason;
+        if (!text && typeof finishReason === 'string' && GeminiClient.BLOCKED_FINISH_REASONS.includes(finishReason)) {
+            throw new GeminiSafetyError(`Response blocked: ${finishReason}`, finishReason);
+        }
+        return text;
+    }
+
+    private extractText(json: unknown): string {
+        if (!jsonRecord(json)) {
+            throw new GeminiMalformedResponseError('Response body was not JSON.');
+        }
+
+        const candidate = this.firstCandidate(json);
+        if (!candidate && !this.blockReason(json)) {
+            throw new GeminiMalformedResponseError('Response contained no candidates.');
+        }
+
+        const text = this.extractChunkText(json);
+        if (!text) {
+            const finishReason = candidate?.finishReason;
+            throw new GeminiMalformedResponseError(`Response contained no text (finish reason: ${typeof finishReason === 'string' ? finishReason : 'unknown'}).`);
+        }
+        return text;
+    }
+}
+
+// A provider-neutral request: a prompt, an optional image, and an optional schema for JSON output
+interface ModelRequest {
+    prompt: string;
+    image?: { mimeType: string; data: string }; // base64-encoded
+    responseSchema?: object; // in Gemini's schema format; other providers translate it
+}
+
+interface ModelProvider {
+    readonly id: ModelProviderId;
+    readonly name: string;
+    readonly modelName: string;
+    readonly supportedMimeTypes: string[]; // input formats the model accepts as-is
+    isConfigured(): boolean;
+    generate(request: ModelRequest, options?: GeminiRequestOptions): Promise<string>;
+    stream(request: ModelRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<string>;
+}
+
+class GeminiProvider implements ModelProvider {
+    readonly id = 'gemini';
+    readonly name = 'Gemini';
+    readonly supportedMimeTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif', 'application/pdf'];
+    private plugin: GeminiNoteProcessor;
+
+    constructor(plugin: GeminiNoteProcessor) {
+        this.plugin = plugin;
+    }
+
+    get modelName(): string {
+        return this.plugin.settings.selectedModel;
+    }
+
+    isConfigured(): boolean {
+        return !!this.plugin.settings.geminiApiKey;
+    }
+
+    private buildBody(request: ModelRequest): object {
+        const parts: object[] = [{ "text": request.prompt }];
+        if (request.image) {
+            parts.push({ "inline_data": { "mime_type": request.image.mimeType, "data": request.image.data } });
+        }
+
+        const body: Record<string, unknown> = { "contents": [{ "parts": parts }] };
+        if (request.responseSchema) {
+            body.generationConfig = {
+                "responseMimeType": "application/json",
+                "responseSchema": request.responseSchema
+            };
+        }
+        return body;
+    }
+
+    generate(request: ModelRequest, options?: GeminiRequestOptions): Promise<string> {
+        return this.plugin.geminiClient.generateContent(this.buildBody(request), options);
+    }
+
+    stream(request: ModelRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+        return this.plugin.geminiClient.streamContent(this.buildBody(request), onText, signal);
+    }
+}
+
+// Translate a Gemini response schema (upper-case types, nullable, propertyOrdering) into standard JSON Schema
+function toJsonSchema(schema: unknown): unknown {
+    const node = jsonRecord(schema);
+    if (!node) return schema;
+
+    const converted: Record<string, unknown> = {};
+    for (const key of Object.keys(node)) {
+        const value = node[key];
+        if (key === 'nullable' || key === 'propertyOrdering') continue;
+        if (key === 'type' && typeof value === 'string') {
+            converted.type = node.nullable ? [value.toLowerCase(), 'null'] : value.toLowerCase();
+        } else if (key === 'properties') {
+            const properties = jsonRecord(value) || {};
+            const convertedProperties: Record<string, unknown> = {};
+            for (const name of Object.keys(properties)) convertedProperties[name] = toJsonSchema(properties[name]);
+            converted.properties = convertedProperties;
+        } else if (key === 'items') {
+            converted.items = toJsonSchema(value);
+        } else {
+            converted[key] = value;
+        }
+    }
+    return converted;
+}
+
+// Any endpoint that speaks the OpenAI chat completions API: Ollama, LM Studio, vLLM, llama.cpp server, OpenAI itself
+class OpenAICompatibleProvider implements ModelProvider {
+    readonly id = 'openai-compatible';
+    readonly name = 'OpenAI-compatible endpoint';
+    readonly supportedMimeTypes = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+    private plugin: GeminiNoteProcessor;
+
+    constructor(plugin: GeminiNoteProcessor) {
+        this.plugin = plugin;
+    }
+
+    get modelName(): string {
+        return this.plugin.settings.openAICompatible.model;
+    }
+
+    isConfigured(): boolean {
+        const config = this.plugin.settings.openAICompatible;
+        return !!config.baseUrl && !!config.model;
+    }
+
+    private get url(): string {
+        return `${this.plugin.settings.openAICompatible.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    }
+
+    private get headers(): Record<string, string> {
+        const apiKey = this.plugin.settings.openAICompatible.apiKey;
+        return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+    }
+
+    private buildBody(request: ModelRequest, stream: boolean): object {
+        let prompt = request.prompt;
+        if (request.responseSchema) {
+            // Not every server supports json_schema, so describe the shape in the prompt as well
+            prompt += `\n\nRespond only with a JSON object matching this JSON Schema:\n${JSON.stringify(toJsonSchema(request.responseSchema))}`;
+        }
+
+        const content = request.image
+            ? [
+                { type: 'text', text: prompt },
+                { type: 'image_url', image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` } }
+            ]
+            : prompt;
+
+        const body: Record<string, unknown> = {
+            model: this.plugin.settings.openAICompatible.model,
+            messages: [{ role: 'user', content }],
+            stream
+        };
+        if (request.responseSchema) {
+            body.response_format = { type: 'json_object' };
+        }
+        return body;
+    }
+
+    private errorFromResponse(status: number, body: unknown, headers: Record<string, string>): GeminiError {
+        const detail = jsonRecord(body)?.error;
+        const detailMessage = typeof detail === 'string' ? detail : jsonRecord(detail)?.message;
+        const message = typeof detailMessage === 'string' && detailMessage ? detailMessage : `HTTP ${status}`;
+
+        let error: GeminiError;
+        if (status === 429) {
+            error = new GeminiQuotaError(message, status);
+        } else if (status === 401 || status === 403) {
+            error = new GeminiAuthError(message, status);
+        } else if (status >= 500 || status === 408) {
+            error = new GeminiError(message, 'server', status, true);
+        } else {
+            error = new GeminiError(message, 'request', status, false);
+        }
+
+        error.provider = this.name;
+        error.retryAfterMs = parseRetryAfter(headers);
+        return error;
+    }
+
+    private malformed(message: string): GeminiError {
+        const error = new GeminiMalformedResponseError(message);
+        error.provider = this.name;
+        return error;
+    }
+
+    // Text of the first choice's message, or of its delta in a stream chunk
+    private choiceContent(json: unknown, field: 'message' | 'delta'): string | null {
+        const choices = jsonRecord(json)?.choices;
+        const choice = Array.isArray(choices) ? jsonRecord(choices[0]) : null;
+        const content = jsonRecord(choice?.[field])?.content;
+        return typeof content === 'string' ? content : null;
+    }
+
+    async generate(request: ModelRequest, options: GeminiRequestOptions = {}): Promise<string> {
+        if (!this.isConfigured()) {
+            throw new GeminiError('Set the base URL and model for the OpenAI-compatible endpoint in settings.', 'request');
+        }
+
+        const maxRetries = options.maxRetries ?? this.plugin.settings.apiMaxRetries;
+        const json = await withRetries(maxRetries, `${this.name} request`, () =>
+            postJson(this.url, this.buildBody(request, false), this.headers, this.name, (status, body, headers) => this.errorFromResponse(status, body, headers)));
+
+        const text = this.choiceContent(json, 'message');
+        if (!text) {
+            throw this.malformed('Response contained no message content.');
+        }
+        return text;
+    }
+
+    async stream(request: ModelRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+        if (!this.isConfigured()) {
+            throw new GeminiError('Set the base URL and model for the OpenAI-compatible endpoint in settings.', 'request');
+        }
+
+        const open = () => openStream(this.url, this.buildBody(request, true), this.headers, signal, this.name, (status, body, headers) => this.errorFromResponse(status, body, headers));
+        let stream: ReadableStream<Uint8Array>;
+        try {
+            stream = await open();
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            if (error instanceof GeminiError && error.category === 'network') {
+                // Streaming goes through fetch, which is subject to CORS, and many local servers don't allow
+                // Obsidian's origin. requestUrl isn't, so fall back to a single response.
+                console.warn(`${this.name}: streaming failed (${error.message}), falling back to a single response`);
+                const text = await this.generate(request);
+                onText(text);
+                return text;
+            }
+            if (!(error instanceof GeminiError) || !error.retryable) throw error;
+            stream = await withRetries(this.plugin.settings.apiMaxRetries, `${this.name} stream`, open);
+        }
+
+        let fullText = '';
+        await readSseStream(stream, (data) => {
+            if (data === '[DONE]') return;
+
+            let json: unknown;
+            try {
+                json = JSON.parse(data);
+            } catch (e) {
+                throw this.malformed('Stream contained an unreadable event.');
+            }
+
+            const text = this.choiceContent(json, 'delta');
+            if (text) {
+                fullText += text;
+                onText(text);
+            }
+        });
+
+        if (!fullText) {
+            throw this.malformed('Stream contained no text.');
+        }
+        return fullText;
+    }
+}
+
+// Chat View Class
+export class GeminiChatView extends ItemView {
+    plugin: GeminiNoteProcessor;
+    noteContent: string;
+    sourceFile: TFile | null;
+    chatContainer: HTMLElement;
+    inputField: HTMLTextAreaElement;
+    sendButton: HTMLButtonElement;
+    stopButton: HTMLButtonElement;
+    sourceFileDisplay: HTMLElement;
+    abortController: AbortController | null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiNoteProcessor) {
+        super(leaf);
+        this.plugin = plugin;
+        this.noteContent = '';
+        this.sourceFile = null;
+        this.abortController = null;
+    }
+
+    getViewType() {
+        return GEMINI_CHAT_VIEW;
+    }
+
+    getDisplayText() {
+        return 'Gemini Chat';
+    }
+
+    getIcon() {
+        return 'message-circle';
+    }
+
+    async onOpen() {
+        const containerEl = this.containerEl.children[1];
+        if (!(containerEl instanceof HTMLElement)) {
+            console.error('Container element is not an HTMLElement');
+            return;
+        }
+        const container = containerEl;
+        container.empty();
+        container.addClass('gemini-chat-view');
+
+        // Create chat UI
+        this.createChatInterface(container);
+
+        // Load current note if available
+        const activeFile = this.app.workspace.getActiveFile();
+        if (activeFile) {
+            await this.loadNote(activeFile);
+        }
+    }
+
+    createChatInterface(container: HTMLElement) {
+        // Make container flex
+        container.style.cssText = `
             display: flex;
-            gap: 5px;
-            margin-bottom: 8px;
-            flex-wrap: wrap;
+            flex-direction: column;
+            height: 100%;
+        `;
+
+        // Header
+        const header = container.createDiv({ cls: 'gemini-chat-header' });
+        header.style.cssText = `
+            padding: 10px;
+            border-bottom: 1px solid var(--background-modifier-border);
+            background: var(--background-secondary);
+            flex-shrink: 0;
+        `;
+
+        const titleEl = header.createEl('h4', { text: 'Chat with Gemini' });
+        titleEl.style.cssText = 'margin: 0; font-size: 14px;';
+
+        this.sourceFileDisplay = header.createEl('div', {
+            cls: 'source-file',
+            text: 'No note loaded'
+        });
+        this.sourceFileDisplay.style.cssText = `
+            font-size: 11px;
+            color: var(--text-muted);
+            margin-top: 4px;
         `;
 
-        const quickPrompts = [
-            { icon: '💡', text: 'Elaborate', prompt: 'Can you elaborate on the main points?' },
-            { icon: '❓', text: 'Questions', prompt: 'What questions should I be asking?' },
-            { icon: '🔗', text: 'Related', prompt: 'What related topics should I explore?' }
-        ];
+        // Chat messages container
+        this.chatContainer = container.createDiv({ cls: 'gemini-chat-messages' });
+        this.chatContainer.style.cssText = `
+            flex: 1;
+            overflow-y: auto;
+            padding: 15px;
+            display: flex;
+            flex-direction: column;
+            gap: 10px;
+        `;
+
+        // Input area at bottom
+        const inputArea = container.createDiv({ cls: 'gemini-chat-input' });
+        inputArea.style.cssText = `
+            padding: 10px;
+            border-top: 1px solid var(--background-modifier-border);
+            background: var(--background-primary);
+            flex-shrink: 0;
+        `;
+
+        // Quick actions
+        const quickActions = inputArea.createDiv({ cls: 'quick-actions' });
+        quickActions.style.cssText = `
+            display: flex;
+            gap: 5px;
+            margin-bottom: 8px;
+            flex-wrap: wrap;
+        `;
+
+        const quickPrompts = [
+            { icon: '💡', text: 'Elaborate', prompt: 'Can you elaborate on the main points?' },
+            { icon: '❓', text: 'Questions', prompt: 'What questions should I be asking?' },
+            { icon: '🔗', text: 'Related', prompt: 'What related topics should I explore?' }
+        ];
+
+        quickPrompts.forEach(({ icon, text, prompt }) => {
+            const btn = quickActions.createEl('button', {
+                text: `${icon} ${text}`,
+                cls: 'clickable-icon'
+            });
+            btn.style.cssText = 'font-size: 11px; padding: 3px 6px;';
+            btn.onclick = () => {
+                this.inputField.value = prompt;
+                this.sendMessage();
+            };
+        });
+
+        // Input container
+        const inputContainer = inputArea.createDiv({ cls: 'input-container' });
+        inputContainer.style.cssText = 'display: flex; gap: 8px;';
+
+        this.inputField = inputContainer.createEl('textarea', {
+            cls: 'gemini-input',
+            attr: {
+                placeholder: 'Ask Gemini about this note...',
+                rows: '2'
+            }
+        });
+        this.inputField.style.cssText = `
+            flex: 1;
+            resize: none;
+            padding: 8px;
+            border-radius: 6px;
+            border: 1px solid var(--background-modifier-border);
+            font-size: 14px;
+        `;
+
+        this.sendButton = inputContainer.createEl('button', {
+            cls: 'mod-cta',
+            text: '➤'
+        });
+        this.sendButton.style.cssText = `
+            width: 40px;
+            height: 40px;
+            border-radius: 50%;
+            align-self: flex-end;
+        `;
+
+        this.stopButton = inputContainer.createEl('button', {
+            cls: 'mod-warning',
+            text: '■',
+            attr: { 'aria-label': 'Stop generating' }
+        });
+        this.stopButton.style.cssText = `
+            width: 40px;
+            height: 40px;
+            border-radius: 50%;
+            align-self: flex-end;
+            display: none;
+        `;
+
+        // Event handlers
+        this.sendButton.onclick = () => this.sendMessage();
+        this.stopButton.onclick = () => this.abortController?.abort();
+        this.inputField.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                this.sendMessage();
+            }
+        });
+
+        // Auto-resize textarea
+        this.inputField.addEventListener('input', () => {
+            this.inputField.style.height = 'auto';
+            this.inputField.style.height = Math.min(this.inputField.scrollHeight, 120) + 'px';
+        });
+    }
+
+    async loadNote(file: TFile) {
+        this.sourceFile = file;
+        this.noteContent = await this.app.vault.read(file);
+        this.sourceFileDisplay.setText(`Discussing: ${file.basename}`);
+
+        // Clear previous chat
+        this.chatContainer.empty();
+
+        // Load existing discussion if it exists
+        const discussionPath = await this.getDiscussionPath(file);
+        const discussionFile = this.app.vault.getAbstractFileByPath(discussionPath);
+
+        if (discussionFile instanceof TFile) {
+            const content = await this.app.vault.read(discussionFile);
+            const entries = this.parseDiscussionHistory(content);
+
+            entries.forEach(entry => {
+                this.addMessage(entry.question, 'user');
+                this.addMessage(entry.response, 'assistant');
+            });
+
+            if (entries.length > 0) {
+                this.addDivider('Previous discussion loaded');
+            }
+        }
+
+        // Add welcome message if no history
+        if (this.chatContainer.children.length === 0) {
+            this.addMessage(`I'm ready to discuss "${file.basename}". What would you like to know?`, 'assistant');
+        }
+    }
+
+    async sendMessage() {
+        const message = this.inputField.value.trim();
+        if (!message || !this.sourceFile) return;
+
+        // Disable input
+        this.inputField.disabled = true;
+        this.sendButton.disabled = true;
+
+        // Add user message
+        this.addMessage(message, 'user');
+
+        // Clear input
+        this.inputField.value = '';
+        this.inputField.style.height = 'auto';
+
+        // Add loading indicator
+        const loadingEl = this.addMessage('Thinking...', 'assistant');
+        loadingEl.style.opacity = '0.6';
+
+        if (this.plugin.settings.enableChatStreaming) {
+            await this.streamResponse(message, loadingEl);
+            return;
+        }
+
+        try {
+            // Get response from Gemini
+            const response = await this.plugin.discussWithGemini(this.noteContent, message, this.plugin.getProviderForFile(this.sourceFile));
+
+            // Remove loading
+            this.chatContainer.removeChild(loadingEl);
+
+            // Add response
+            this.addMessage(response, 'assistant');
+
+            // Save to discussion file
+            if (this.sourceFile) {
+                const discussionPath = await this.getDiscussionPath(this.sourceFile);
+                await this.plugin.appendToDiscussionFile(
+                    discussionPath,
+                    message,
+                    response,
+                    this.sourceFile
+                );
+            }
+        } catch (error) {
+            this.chatContainer.removeChild(loadingEl);
+            this.addMessage(`Failed to get response: ${describeGeminiError(error)}`, 'error');
+            console.error('Gemini chat error:', error);
+        } finally {
+            this.inputField.disabled = false;
+            this.sendButton.disabled = false;
+            this.inputField.focus();
+        }
+    }
+
+    async streamResponse(message: string, messageEl: HTMLElement) {
+        const abortController = new AbortController();
+        this.abortController = abortController;
+        this.sendButton.style.display = 'none';
+        this.stopButton.style.display = '';
+
+        let partial = '';
+        let errorMessage: string | null = null;
+
+        try {
+            const provider = this.sourceFile ? this.plugin.getProviderForFile(this.sourceFile) : this.plugin.getProvider();
+            await this.plugin.streamDiscussionWithGemini(this.noteContent, message, (text) => {
+                if (!partial) messageEl.style.opacity = '1';
+                partial += text;
+                this.renderMessageContent(messageEl, partial);
+            }, abortController.signal, provider);
+        } catch (error) {
+            if (!abortController.signal.aborted) {
+                errorMessage = `Failed to get response: ${describeGeminiError(error)}`;
+                console.error('Gemini chat error:', error);
+            }
+        }
+
+        const stopped = abortController.signal.aborted;
+        this.abortController = null;
+        this.stopButton.style.display = 'none';
+        this.sendButton.style.display = '';
+
+        if (!partial) {
+            messageEl.remove();
+        } else if (stopped || errorMessage) {
+            partial += '\n\n*(Response stopped early)*';
+            this.renderMessageContent(messageEl, partial);
+        }
+
+        if (errorMessage) {
+            this.addMessage(errorMessage, 'error');
+        } else if (stopped && !partial) {
+            this.addDivider('Response stopped');
+        }
+
+        // Save whatever was received, including a partial answer
+        if (partial && this.sourceFile) {
+            try {
+                const discussionPath = await this.getDiscussionPath(this.sourceFile);
+                await this.plugin.appendToDiscussionFile(discussionPath, message, partial, this.sourceFile);
+            } catch (error) {
+                console.error('Failed to save discussion:', error);
+            }
+        }
+
+        this.inputField.disabled = false;
+        this.sendButton.disabled = false;
+        this.inputField.focus();
+    }
+
+    renderMessageContent(messageEl: HTMLElement, content: string) {
+        messageEl.empty();
+        MarkdownRenderer.renderMarkdown(content, messageEl, '', this.plugin);
+        this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+    }
+
+    addMessage(content: string, type: 'user' | 'assistant' | 'error'): HTMLElement {
+        const messageEl = this.chatContainer.createDiv({
+            cls: `gemini-message gemini-message-${type}`
+        });
+
+        const baseStyle = `
+            padding: 10px 14px;
+            border-radius: 12px;
+            max-width: 85%;
+            word-wrap: break-word;
+        `;
+
+        if (type === 'user') {
+            messageEl.style.cssText = baseStyle + `
+                background: var(--interactive-accent);
+                color: var(--text-on-accent);
+                align-self: flex-end;
+                margin-left: auto;
+            `;
+        } else if (type === 'assistant') {
+            messageEl.style.cssText = baseStyle + `
+                background: var(--background-secondary);
+                align-self: flex-start;
+            `;
+        } else {
+            messageEl.style.cssText = baseStyle + `
+                background: var(--background-modifier-error);
+                align-self: center;
+            `;
+        }
+
+        // Render markdown
+        MarkdownRenderer.renderMarkdown(content, messageEl, '', this.plugin);
+
+        // Scroll to bottom
+        this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+
+        return messageEl;
+    }
+
+    addDivider(text: string) {
+        const divider = this.chatContainer.createDiv({ cls: 'chat-divider' });
+        divider.style.cssText = `
+            text-align: center;
+            color: var(--text-muted);
+            font-size: 11px;
+            margin: 10px 0;
+            position: relative;
+        `;
+        divider.setText(text);
+    }
+
+    async getDiscussionPath(file: TFile): Promise<string> {
+        const folder = file.parent?.path || '';
+        const name = `${file.basename} - Discussion.md`;
+        return folder ? `${folder}/${name}` : name;
+    }
+
+    parseDiscussionHistory(content: string): Array<{ question: string, response: string }> {
+        const entries: Array<{ question: string, response: string }> = [];
+        const entryRegex = /## Discussion Entry - .*?\n\n\*\*Question:\*\* (.*?)\n\n\*\*Gemini's Response:\*\*\n([\s\S]*?)(?=\n---\n|$)/g;
+        let match;
+
+        while ((match = entryRegex.exec(content)) !== null) {
+            entries.push({
+                question: match[1],
+                response: match[2].trim()
+            });
+        }
+
+        return entries;
+    }
+
+    async onClose() {
+        // Stop any response still streaming
+        this.abortController?.abort();
+    }
+}
+
+
+// Live view of what the folder monitor is doing, per profile
+class FolderMonitorView extends ItemView {
+    plugin: GeminiNoteProcessor;
+    private unsubscribe: (() => void) | null = null;
+    private renderQueued = false;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiNoteProcessor) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return FOLDER_MONITOR_VIEW;
+    }
+
+    getDisplayText() {
+        return 'Folder Monitor';
+    }
+
+    getIcon() {
+        return 'folder-sync';
+    }
+
+    async onOpen() {
+        this.unsubscribe = this.plugin.folderMonitor.onChange(() => this.scheduleRender());
+        // Keep relative times and retry countdowns fresh
+        this.registerInterval(window.setInterval(() => this.render(), 15000));
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    // Changes arrive in bursts while a batch runs; redraw once per frame at most
+    private scheduleRender() {
+        if (this.renderQueued) return;
+        this.renderQueued = true;
+        window.requestAnimationFrame(() => {
+            this.renderQueued = false;
+            this.render();
+        });
+    }
+
+    render() {
+        const container = this.containerEl.children[1];
+        if (!(container instanceof HTMLElement)) return;
+        container.empty();
+        container.style.cssText = 'padding: 10px; overflow-y: auto;';
+
+        const monitor = this.plugin.folderMonitor;
+        const settings = this.plugin.settings.folderMonitor;
+
+        const header = container.createDiv();
+        header.style.cssText = 'display: flex; align-items: center; justify-content: space-between; margin-bottom: 10px;';
+        header.createEl('h4', { text: 'Folder Monitor' }).style.cssText = 'margin: 0;';
+        header.createEl('span', {
+            text: !settings.enabled ? '🔴 Disabled' : monitor.isRunning() ? '🟢 Running' : '🔴 Stopped',
+            cls: 'setting-item-description'
+        });
+
+        if (settings.profiles.length === 0) {
+            container.createEl('p', {
+                text: 'No watched folders yet. Add a profile under Automatic Folder Monitoring in settings.',
+                cls: 'setting-item-description'
+            });
+            return;
+        }
+
+        for (const profile of settings.profiles) {
+            this.renderProfile(container, profile);
+        }
+    }
+
+    private renderProfile(container: HTMLElement, profile: FolderMonitorProfile) {
+        const monitor = this.plugin.folderMonitor;
+        const section = container.createDiv();
+        section.style.cssText = 'border: 1px solid var(--background-modifier-border); border-radius: 8px; padding: 10px; margin-bottom: 12px;';
+
+        const titleRow = section.createDiv();
+        titleRow.style.cssText = 'display: flex; align-items: center; gap: 8px; flex-wrap: wrap;';
+        titleRow.createEl('strong', { text: profile.name });
+        titleRow.createEl('span', {
+            text: `${profile.watchFolder} · ${!profile.enabled ? '⏸ Disabled' : profile.paused ? '⏸ Paused' : monitor.isProcessing(profile.id) ? '⏳ Processing' : '🟢 Watching'}`,
+            cls: 'setting-item-description'
+        }).style.cssText = 'flex: 1;';
+
+        titleRow.createEl('button', { text: profile.paused ? 'Resume' : 'Pause' }).addEventListener('click', async () => {
+            await monitor.setPaused(profile, !profile.paused);
+        });
+        titleRow.createEl('button', { text: 'Process now', cls: 'mod-cta' }).addEventListener('click', () => {
+            monitor.checkProfile(profile, true);
+        });
+
+        const queue = monitor.getQueue(profile.id);
+        const inProgress = queue.filter(item => item.status === 'processing');
+        const queued = queue.filter(item => item.status !== 'processing');
+        const retries = monitor.getRetries(profile.id);
+        const unmoved = monitor.getUnmoved(profile.id);
+        const failed = this.plugin.settings.quarantinedFiles.filter(entry => entry.profileId === profile.id);
+        const allCompleted = this.plugin.settings.processedLedger.filter(entry => entry.profileId === profile.id);
+        const completedCount = allCompleted.length;
+        const completed = allCompleted.sort((a, b) => b.processedAt - a.processedAt).slice(0, 10);
+
+        this.renderList(section, `In progress (${inProgress.length})`, inProgress, (row, item) => {
+            this.renderFileName(row, item.path);
+            row.createEl('div', { text: `Started ${window.moment(item.since).fromNow()}`, cls: 'setting-item-description' });
+        });
+
+        this.renderList(section, `Queued (${queued.length})`, queued, (row, item) => {
+            this.renderFileName(row, item.path);
+            const note = item.status === 'waiting' ? 'waiting for sync to finish' : profile.enabled && !profile.paused ? 'ready' : 'paused';
+            row.createEl('div', { text: `Seen ${window.moment(item.since).fromNow()} · ${note}`, cls: 'setting-item-description' });
+        });
+
+        this.renderList(section, `Retrying (${retries.length})`, retries, (row, item) => {
+            this.renderFileName(row, item.path);
+            const next = item.nextAttemptAt > Date.now() ? `next attempt ${window.moment(item.nextAttemptAt).fromNow()}` : 'retrying';
+            row.createEl('div', { text: `Attempt ${item.attempts}/${this.plugin.settings.folderMonitor.maxAttempts} failed · ${next}`, cls: 'setting-item-description' });
+            this.renderError(row, item.error);
+            row.createEl('button', { text: 'Retry now' }).addEventListener('click', () => monitor.retryNow(item.path));
+        });
+
+        this.renderList(section, `Not moved (${unmoved.length})`, unmoved, (row, item) => {
+            this.renderFileName(row, item.path);
+            row.createEl('div', { text: 'Processed, but still in the watch folder. Move it yourself or try again.', cls: 'setting-item-description' });
+            this.renderError(row, item.error);
+            row.createEl('button', { text: 'Try again' }).addEventListener('click', () => monitor.retryMove(item.path));
+        });
+
+        this.renderList(section, `Failed (${failed.length})`, failed, (row, entry) => {
+            this.renderFileName(row, entry.originalPath);
+            row.createEl('div', {
+                text: `${window.moment(entry.failedAt).format('YYYY-MM-DD HH:mm')} · ${entry.category} · ${entry.attempts} attempt(s)`,
+                cls: 'setting-item-description'
+            });
+            this.renderError(row, entry.message);
+            row.createEl('button', { text: 'Retry' }).addEventListener('click', async () => {
+                const count = await monitor.requeueQuarantined([entry]);
+                if (count === 0) new Notice(`Could not find ${entry.path}`);
+            });
+        });
+
+        this.renderList(section, `Completed (${completedCount > completed.length ? `latest ${completed.length} of ${completedCount}` : completed.length})`, completed, (row, entry) => {
+            this.renderFileName(row, entry.sourcePath);
+            row.createEl('div', {
+                text: `${window.moment(entry.processedAt).format('YYYY-MM-DD HH:mm')} · ${entry.model}`,
+                cls: 'setting-item-description'
+            });
+            for (const notePath of entry.notePaths) {
+                const link = row.createEl('a', { text: notePath.split('/').pop()?.replace(/\.md$/, '') || notePath, href: '#' });
+                link.style.cssText = 'display: block; font-size: 0.9em;';
+                link.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    this.app.workspace.openLinkText(notePath, '', false);
+                });
+            }
+        });
+    }
+
+    private renderList<T>(container: HTMLElement, title: string, items: T[], renderItem: (row: HTMLElement, item: T) => void) {
+        if (items.length === 0) return;
+
+        const details = container.createEl('details');
+        details.open = true;
+        details.style.cssText = 'margin-top: 8px;';
+        details.createEl('summary', { text: title }).style.cssText = 'cursor: pointer; font-weight: 500;';
+
+        for (const item of items) {
+            const row = details.createDiv();
+            row.style.cssText = 'padding: 6px 0 6px 12px; border-bottom: 1px solid var(--background-modifier-border);';
+            renderItem(row, item);
+        }
+    }
+
+    private renderFileName(row: HTMLElement, path: string) {
+        row.createEl('div', { text: path.split(/[\\/]/).pop() || path }).style.cssText = 'word-break: break-all;';
+    }
+
+    private renderError(row: HTMLElement, message: string) {
+        row.createEl('div', { text: message }).style.cssText = 'color: var(--text-error); font-size: 0.9em;';
+    }
+}
+
+// Backoff between attempts at a monitored file that failed (separate from per-request API retries)
+const FILE_RETRY_BASE_DELAY_MS = 30000;
+const FILE_RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+// How long to wait after writing a lock before checking no other device overwrote it
+const LOCK_SETTLE_MS = 2000;
+// How many processed files the ledger remembers; the oldest are dropped beyond this
+const MAX_LEDGER_ENTRIES = 2000;
+
+// Add this class to handle folder monitoring
+class FolderMonitor {
+    private plugin: GeminiNoteProcessor;
+    private intervalId: number | null = null;
+    private recheckTimeouts: Map<string, number> = new Map();
+    private eventRefs: EventRef[] = [];
+    private fsWatchers: import('fs').FSWatcher[] = [];
+    private running = false;
+    // Profiles run independently: each has its own busy flag and pending re-check
+    private processingProfiles: Set<string> = new Set();
+    private recheckRequested: Set<string> = new Set();
+    private processedFiles: Set<string> = new Set();
+    private queue: Map<string, MonitorQueueItem> = new Map();
+    // Failed files waiting for their next attempt
+    private failedAttempts: Map<string, MonitorRetryItem> = new Map();
+    private retryTimeouts: Set<number> = new Set();
+    // Processed files still in the watch folder because moving them failed; left out of matching until dealt with
+    private unmovedFiles: Map<string, MonitorUnmovedItem> = new Map();
+    private listeners: Set<() => void> = new Set();
+    // Last seen size of each candidate file, used to wait until a sync has finished
+    private observedSizes: Map<string, { size: number; since: number }> = new Map();
+
+    constructor(plugin: GeminiNoteProcessor) {
+        this.plugin = plugin;
+    }
+
+    // Public method to check if monitor is running
+    public isRunning(): boolean {
+        return this.running;
+    }
+
+    public isProcessing(profileId: string): boolean {
+        return this.processingProfiles.has(profileId);
+    }
+
+    public getQueue(profileId: string): MonitorQueueItem[] {
+        return Array.from(this.queue.values()).filter(item => item.profileId === profileId);
+    }
+
+    public getRetries(profileId: string): MonitorRetryItem[] {
+        return Array.from(this.failedAttempts.values()).filter(item => item.profileId === profileId);
+    }
+
+    public getUnmoved(profileId: string): MonitorUnmovedItem[] {
+        return Array.from(this.unmovedFiles.values()).filter(item => item.profileId === profileId);
+    }
+
+    // Register a callback for any change in queue, progress or results. Returns an unsubscribe function.
+    public onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notifyChange() {
+        this.listeners.forEach(listener => listener());
+    }
+
+    // Profiles checked automatically: enabled and not paused
+    private getEnabledProfiles(): FolderMonitorProfile[] {
+        return this.plugin.settings.folderMonitor.profiles.filter(profile => profile.enabled && !profile.paused);
+    }
+
+    // True unless another device has been designated as the monitor host
+    public isHost(): boolean {
+        const hostId = this.plugin.settings.folderMonitor.hostDeviceId;
+        return !hostId || hostId === this.plugin.getDevice().id;
+    }
+
+    start() {
+        if (!this.plugin.settings.folderMonitor.enabled) {
+            return;
+        }
+
+        if (!this.isHost()) {
+            const host = this.plugin.settings.folderMonitor.devices.find(d => d.id === this.plugin.settings.folderMonitor.hostDeviceId);
+            console.log(`Folder monitor: ${host?.name || 'Another device'} is the monitor host, not monitoring on this device`);
+            this.stop();
+            return;
+        }
+
+        console.log('Starting folder monitor for:', this.getEnabledProfiles().map(profile => `${profile.name} (${profile.watchFolder})`).join(', '));
+
+        // Clear any existing interval and listeners
+        this.stop();
+        this.running = true;
+
+        // Vault events fire for every file while the vault loads, so only listen once that's done
+        this.plugin.app.workspace.onLayoutReady(() => {
+            if (!this.running) return;
+
+            const vault = this.plugin.app.vault;
+            this.eventRefs = [
+                vault.on('create', (file) => this.onVaultEvent(file)),
+                vault.on('rename', (file) => this.onVaultEvent(file)),
+                vault.on('modify', (file) => this.onVaultEvent(file))
+            ];
+
+            this.watchExternalFolders();
+
+            // Initial check
+            this.checkFolder();
+        });
+
+        // Polling catches anything the events missed (e.g. files written while Obsidian was closed)
+        if (this.plugin.settings.folderMonitor.usePolling) {
+            const intervalMs = this.plugin.settings.folderMonitor.checkInterval * 1000;
+            this.intervalId = window.setInterval(() => {
+                this.checkFolder();
+            }, intervalMs);
+        }
+    }
+
+    stop() {
+        for (const ref of this.eventRefs) {
+            this.plugin.app.vault.offref(ref);
+        }
+        this.eventRefs = [];
+
+        for (const watcher of this.fsWatchers) {
+            watcher.close();
+        }
+        this.fsWatchers = [];
+
+        for (const timeoutId of this.recheckTimeouts.values()) {
+            window.clearTimeout(timeoutId);
+        }
+        this.recheckTimeouts.clear();
+
+        for (const timeoutId of this.retryTimeouts) {
+            window.clearTimeout(timeoutId);
+        }
+        this.retryTimeouts.clear();
+
+        if (this.intervalId) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+
+        if (this.running) {
+            this.running = false;
+            console.log('Stopped folder monitor');
+        }
+    }
+
+    isExternal(profile: FolderMonitorProfile): boolean {
+        return profile.external && Platform.isDesktopApp;
+    }
+
+    // The vault doesn't see outside folders, so watch those directly with fs.watch.
+    // Paused profiles are watched too so resuming doesn't need a restart.
+    private watchExternalFolders() {
+        for (const profile of this.plugin.settings.folderMonitor.profiles) {
+            if (!profile.external) continue;
+            if (!Platform.isDesktopApp) {
+                console.log(`Folder monitor (${profile.name}): External folders are only supported on desktop`);
+                continue;
+            }
+
+            try {
+                const watcher = nodeFs().watch(expandHomePath(profile.watchFolder), (eventType, fileName) => {
+                    if (profile.enabled && !profile.paused && fileName && this.matchesPattern(profile, fileName.toString())) {
+                        this.scheduleRecheck(profile);
+                    }
+                });
+                watcher.on('error', (error) => console.error(`Folder monitor (${profile.name}): Watcher error`, error));
+                this.fsWatchers.push(watcher);
+            } catch (error) {
+                // Polling still picks files up if the folder appears later
+                console.error(`Folder monitor (${profile.name}): Could not watch ${profile.watchFolder}`, error);
+            }
+        }
+    }
+
+    private onVaultEvent(file: TAbstractFile) {
+        if (!(file instanceof TFile)) {
+            return;
+        }
+
+        for (const profile of this.getEnabledProfiles()) {
+            if (this.isExternal(profile)) continue;
+            if (file.parent?.path === this.getWatchFolderPath(profile) && this.matchesPattern(profile, file.name)) {
+                // Give the file time to settle before looking at it
+                this.scheduleRecheck(profile);
+            }
+        }
+    }
+
+    // Debounced follow-up check, run once files have had time to finish syncing
+    private scheduleRecheck(profile: FolderMonitorProfile) {
+        const existing = this.recheckTimeouts.get(profile.id);
+        if (existing) {
+            window.clearTimeout(existing);
+        }
+        const delayMs = Math.max(1, this.plugin.settings.folderMonitor.stabilitySeconds) * 1000 + 500;
+        this.recheckTimeouts.set(profile.id, window.setTimeout(() => {
+            this.recheckTimeouts.delete(profile.id);
+            this.checkProfile(profile);
+        }, delayMs));
+    }
+
+    private getWatchFolderPath(profile: FolderMonitorProfile): string {
+        return profile.watchFolder.replace(/^\/+|\/+$/g, '') || '/';
+    }
+
+    // A file is ready once its size is non-zero and hasn't changed for stabilitySeconds
+    private isStable(path: string, size: number): boolean {
+        const now = Date.now();
+        const observed = this.observedSizes.get(path);
+
+        if (!observed || observed.size !== size) {
+            this.observedSizes.set(path, { size, since: now });
+            return false;
+        }
+
+        return size > 0 && now - observed.since >= this.plugin.settings.folderMonitor.stabilitySeconds * 1000;
+    }
+
+    // Check every enabled profile
+    async checkFolder() {
+        await Promise.all(this.getEnabledProfiles().map(profile => this.checkProfile(profile)));
+    }
+
+    // force skips any retry backoff and runs paused profiles too (used by "process now" and retry)
+    async checkProfile(profile: FolderMonitorProfile, force = false) {
+        if ((!profile.enabled || profile.paused) && !force) {
+            return;
+        }
+
+        if (this.processingProfiles.has(profile.id)) {
+            console.log(`Folder monitor (${profile.name}): Already processing, will check again when done`);
+            this.recheckRequested.add(profile.id);
+            return;
+        }
+
+        if (profile.external && !Platform.isDesktopApp) {
+            return;
+        }
+
+        if (force) {
+            for (const item of this.getRetries(profile.id)) {
+                item.nextAttemptAt = 0;
+            }
+        }
+
+        // Get all files matching the pattern
+        let candidates: { source: MonitorSource; path: string; size: number }[];
+        if (this.isExternal(profile)) {
+            candidates = await this.getExternalMatchingFiles(profile);
+        } else {
+            const folder = this.plugin.app.vault.getAbstractFileByPath(this.getWatchFolderPath(profile));
+
+            if (!folder || !(folder instanceof TFolder)) {
+                console.log(`Watch folder not found for ${profile.name}:`, profile.watchFolder);
+                return;
+            }
+
+            const matching = await this.getMatchingFiles(profile, folder);
+            candidates = matching.map(file => ({ source: file, path: file.path, size: file.stat.size }));
+        }
+        const ready = candidates.filter(candidate => this.isStable(candidate.path, candidate.size));
+        const files = ready.map(candidate => candidate.source);
+
+        // Drop queue entries for files that have gone away, then record what's waiting
+        const candidatePaths = new Set(candidates.map(candidate => candidate.path));
+        for (const item of this.getQueue(profile.id)) {
+            if (item.status !== 'processing' && !candidatePaths.has(item.path)) {
+                this.queue.delete(item.path);
+            }
+        }
+        for (const candidate of candidates) {
+            const status = ready.includes(candidate) ? 'queued' : 'waiting';
+            const existing = this.queue.get(candidate.path);
+            if (!existing || existing.status !== status) {
+                this.queue.set(candidate.path, { path: candidate.path, profileId: profile.id, status, since: existing?.since || Date.now() });
+            }
+        }
+        this.notifyChange();
+
+        // Some files are still being written; look again once they've had time to settle
+        if (files.length < candidates.length && this.running) {
+            this.scheduleRecheck(profile);
+        }
+
+        if (files.length === 0) {
+            return;
+        }
+
+        console.log(`Folder monitor (${profile.name}): Found ${files.length} files to process`);
+        this.processingProfiles.add(profile.id);
+        this.notifyChange();
+
+        try {
+            await this.processFiles(profile, files, force);
+        } catch (error) {
+            console.error(`Error processing files for ${profile.name}:`, error);
+            new Notice(`Folder monitor (${profile.name}): Error processing files. Check console.`);
+        } finally {
+            this.processingProfiles.delete(profile.id);
+            for (const candidate of ready) {
+                this.observedSizes.delete(candidate.path);
+            }
+            this.notifyChange();
+        }
+
+        if (this.recheckRequested.delete(profile.id)) {
+            await this.checkProfile(profile);
+        }
+    }
+
+    matchesPattern(profile: FolderMonitorProfile, fileName: string): boolean {
+        // Create regex pattern from the file pattern
+        // Convert wildcards to regex: * -> .*, ? -> .
+        const regexPattern = profile.filePattern
+            .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape special regex chars
+            .replace(/\*/g, '.*') // Replace * with .*
+            .replace(/\?/g, '.'); // Replace ? with .
+
+        const regex = new RegExp(`^${regexPattern}\\.(${IMAGE_EXTENSIONS.join('|')}|pdf)$`, 'i');
+        return regex.test(fileName);
+    }
+
+    async getMatchingFiles(profile: FolderMonitorProfile, folder: TFolder): Promise<TFile[]> {
+        const matchingFiles: TFile[] = [];
+
+        // Processed files are moved or deleted, so anything still in the watch folder is a
+        // candidate regardless of its timestamps (synced files often keep an old ctime)
+        for (const child of folder.children) {
+            if (child instanceof TFile) {
+                // Check if file matches pattern
+                if (!this.matchesPattern(profile, child.name)) {
+                    continue;
+                }
+
+                // Check if we've already processed this file in this session
+                if (this.processedFiles.has(child.path) || this.unmovedFiles.get(child.path)?.source === child) {
+                    continue;
+                }
+
+                // Failed recently; wait for the backoff to expire
+                const failure = this.failedAttempts.get(child.path);
+                if (failure && failure.nextAttemptAt > Date.now()) {
+                    continue;
+                }
+
+                matchingFiles.push(child);
+            }
+        }
+
+        return matchingFiles;
+    }
+
+    // Candidates in an external profile's filesystem folder
+    async getExternalMatchingFiles(profile: FolderMonitorProfile): Promise<{ source: MonitorSource; path: string; size: number }[]> {
+        const fs = nodeFs();
+        const folder = expandHomePath(profile.watchFolder);
+        const matchingFiles: { source: MonitorSource; path: string; size: number }[] = [];
+
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(folder);
+        } catch (error) {
+            console.log(`Watch folder not found for ${profile.name}:`, folder);
+            return matchingFiles;
+        }
+
+        for (const name of names) {
+            if (!this.matchesPattern(profile, name)) continue;
+
+            const filePath = nodePath().join(folder, name);
+            if (this.processedFiles.has(filePath) || this.unmovedFiles.has(filePath)) continue;
+
+            const failure = this.failedAttempts.get(filePath);
+            if (failure && failure.nextAttemptAt > Date.now()) continue;
+
+            try {
+                const stat = await fs.promises.stat(filePath);
+                if (stat.isFile()) {
+                    matchingFiles.push({ source: filePath, path: filePath, size: stat.size });
+                }
+            } catch (error) {
+                // Removed between readdir and stat
+            }
+        }
+
+        return matchingFiles;
+    }
+
+    private async getLockPath(sourcePath: string): Promise<string> {
+        const folder = this.plugin.settings.folderMonitor.lockFolder.replace(/^\/+|\/+$/g, '');
+        const key = (await hashArrayBuffer(new TextEncoder().encode(sourcePath).buffer)).substring(0, 16);
+        return folder ? `${folder}/${key}.json` : `${key}.json`;
+    }
+
+    private async readLock(lockPath: string): Promise<MonitorLock | null> {
+        try {
+            if (!(await this.plugin.app.vault.adapter.exists(lockPath))) return null;
+            return JSON.parse(await this.plugin.app.vault.adapter.read(lockPath)) as MonitorLock;
+        } catch (error) {
+            // A half-synced or hand-edited lock is treated as no lock
+            return null;
+        }
+    }
+
+    // Write a lock for the file unless another device holds an unexpired one. Returns false if it's taken.
+    // This is best-effort: sync can deliver two claims at once and both devices may read back their own.
+    // Choosing a monitor host is the only way to make sure a single device processes the folder.
+    private async claimFile(sourcePath: string): Promise<boolean> {
+        const settings = this.plugin.settings.folderMonitor;
+        const device = this.plugin.getDevice();
+        const lockPath = await this.getLockPath(sourcePath);
+
+        const existing = await this.readLock(lockPath);
+        if (existing && existing.deviceId !== device.id && existing.expiresAt > Date.now()) {
+            console.log(`Folder monitor: ${sourcePath} is claimed by ${existing.deviceName} until ${window.moment(existing.expiresAt).format('HH:mm')}`);
+            return false;
+        }
+
+        const now = Date.now();
+        const lock: MonitorLock = {
+            deviceId: device.id,
+            deviceName: device.name,
+            path: sourcePath,
+            claimedAt: now,
+            expiresAt: now + settings.lockMinutes * 60 * 1000
+        };
+
+        if (settings.lockFolder.trim()) await this.plugin.getAndEnsureFolder(settings.lockFolder);
+        await this.plugin.app.vault.adapter.write(lockPath, JSON.stringify(lock, null, 2));
+
+        // With no other device on record there's nothing to race
+        if (!settings.devices.some(known => known.id !== device.id)) return true;
+
+        // Give a competing claim a moment to sync in, then make sure ours is the one that stuck
+        await new Promise(resolve => setTimeout(resolve, LOCK_SETTLE_MS));
+        const confirmed = await this.readLock(lockPath);
+        return confirmed?.deviceId === device.id;
+    }
+
+    // Push our lock's expiry back, so a long run isn't taken over by another device part way through
+    private async renewClaim(sourcePath: string) {
+        const lockPath = await this.getLockPath(sourcePath);
+        const lock = await this.readLock(lockPath);
+        if (!lock || lock.deviceId !== this.plugin.getDevice().id) return;
+        lock.expiresAt = Date.now() + this.plugin.settings.folderMonitor.lockMinutes * 60 * 1000;
+        await this.plugin.app.vault.adapter.write(lockPath, JSON.stringify(lock, null, 2));
+    }
+
+    private async releaseFile(sourcePath: string) {
+        const lockPath = await this.getLockPath(sourcePath);
+        const lock = await this.readLock(lockPath);
+        if (lock && lock.deviceId === this.plugin.getDevice().id) {
+            await this.plugin.app.vault.adapter.remove(lockPath).catch(error => console.error(`Failed to release lock ${lockPath}:`, error));
+        }
+    }
+
+    private getSourcePath(source: MonitorSource): string {
+        return typeof source === 'string' ? source : source.path;
+    }
+
+    private getSourceName(source: MonitorSource): string {
+        return typeof source === 'string' ? nodePath().basename(source) : source.name;
+    }
+
+    private async readSource(source: MonitorSource): Promise<ArrayBuffer> {
+        if (typeof source !== 'string') {
+            return this.plugin.app.vault.readBinary(source);
+        }
+        const buffer = await nodeFs().promises.readFile(source);
+        return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+    }
+
+    // Copy a file from outside the vault into the attachment folder so the normal pipeline can use it
+    private async importExternalFile(sourcePath: string, data: ArrayBuffer): Promise<TFile> {
+        const attachmentFolder = await this.plugin.getAndEnsureFolder(this.plugin.settings.attachmentLocation);
+        const name = nodePath().basename(sourcePath);
+        const importPath = this.getAvailablePath(attachmentFolder ? `${attachmentFolder}/${name}` : name);
+        return this.plugin.app.vault.createBinary(importPath, data);
+    }
+
+    // Queue each file as a job and wait for the batch, so anything left when Obsidian closes resumes next time
+    async processFiles(profile: FolderMonitorProfile, sources: MonitorSource[], force = false) {
+        const progressNotice = new Notice(`${profile.name}: Processing ${sources.length} files from monitored folder...`, 0);
+        const failedFiles: string[] = [];
+        const skippedFiles: string[] = [];
+        const claimedElsewhere: string[] = [];
+        let pausedCount = 0;
+        let finishedCount = 0;
+
+        // Profiles filing into the same notebook take turns, so they can't hand out the same page number
+        const group = profile.notebookId ? `notebook:${profile.notebookId}` : `monitor:${profile.id}`;
+        await Promise.all(sources.map(async (source) => {
+            const sourcePath = this.getSourcePath(source);
+            const sourceName = this.getSourceName(source);
+            const job = this.plugin.jobQueue.enqueue(`${profile.name}: ${sourceName}`, `monitor:${sourcePath}`, {
+                kind: 'monitor',
+                profileId: profile.id,
+                sourcePath,
+                external: typeof source === 'string',
+                force
+            }, group);
+
+            const finished = await this.plugin.jobQueue.waitFor(job);
+            finishedCount++;
+            progressNotice.setMessage(`${profile.name}: Processed ${finishedCount}/${sources.length}: ${sourceName}`);
+
+            if (finished.status === 'failed') {
+                failedFiles.push(sourceName);
+            } else if (finished.status === 'cancelled') {
+                // Don't pick it straight back up; it's tried again after a restart
+                this.processedFiles.add(sourcePath);
+                this.queue.delete(sourcePath);
+                this.notifyChange();
+                pausedCount++;
+            } else if (finished.result === 'skipped') {
+                skippedFiles.push(sourceName);
+            } else if (finished.result === 'claimed') {
+                claimedElsewhere.push(sourceName);
+            } else if (finished.result === 'paused' || finished.result === 'missing') {
+                pausedCount++;
+            }
+        }));
+
+        // Update last processed time
+        profile.lastProcessedTime = Date.now();
+        await this.plugin.saveSettings();
+
+        progressNotice.hide();
+        const processedCount = sources.length - failedFiles.length - skippedFiles.length - claimedElsewhere.length - pausedCount;
+        let skippedText = skippedFiles.length > 0 ? ` Skipped ${skippedFiles.length} already processed.` : '';
+        if (claimedElsewhere.length > 0) skippedText += ` ${claimedElsewhere.length} being processed on another device.`;
+        if (pausedCount > 0) skippedText += ` ${pausedCount} paused or cancelled.`;
+        if (failedFiles.length > 0) {
+            new Notice(`⚠️ ${profile.name}: Processed ${processedCount}/${sources.length} files from monitored folder.${skippedText} Failed: ${failedFiles.join(', ')}`, 0);
+        } else {
+            new Notice(`✅ ${profile.name}: Processed ${processedCount} files from monitored folder.${skippedText}`);
+        }
+    }
+
+    // Process one monitored file for the job queue. Returns how it went: processed, skipped
+    // (already in the ledger), claimed (by another device), paused, or missing.
+    async runJob(params: Extract<ProcessingJobParams, { kind: 'monitor' }>): Promise<string> {
+        const profile = this.plugin.settings.folderMonitor.profiles.find(p => p.id === params.profileId);
+        if (!profile) {
+            throw new Error('The folder monitor profile for this file was deleted');
+        }
+
+        const sourcePath = params.sourcePath;
+        let source: MonitorSource;
+        if (params.external) {
+            if (!nodeFs().existsSync(sourcePath)) return 'missing';
+            source = sourcePath;
+        } else {
+            const file = this.plugin.app.vault.getAbstractFileByPath(sourcePath);
+            if (!(file instanceof TFile)) return 'missing';
+            source = file;
+        }
+        const sourceName = this.getSourceName(source);
+        const transaction = new ProcessingTransaction(this.plugin.app);
+        let imported: TFile | null = null;
+
+        // Paused while queued; leave it for when the profile resumes, unless it was run on purpose
+        if ((!profile.enabled || profile.paused) && !params.force) {
+            console.log(`Folder monitor (${profile.name}): Paused, leaving ${sourceName} queued`);
+            return 'paused';
+        }
+
+        // Another device on the synced vault may already be working on it
+        if (!(await this.claimFile(sourcePath))) {
+            this.queue.delete(sourcePath);
+            this.notifyChange();
+            return 'claimed';
+        }
+
+        this.queue.set(sourcePath, { path: sourcePath, profileId: profile.id, status: 'processing', since: Date.now() });
+        this.notifyChange();
+
+        // Renew the claim halfway through each lock period for as long as the file is being worked on
+        const renewal = window.setInterval(() => {
+            this.renewClaim(sourcePath).catch(error => console.error(`Failed to renew lock for ${sourcePath}:`, error));
+        }, this.plugin.settings.folderMonitor.lockMinutes * 30 * 1000);
+
+        try {
+            // Skip anything already processed, even if it was renamed or synced back in
+            const data = await this.readSource(source);
+            const hash = await hashArrayBuffer(data);
+            const existing = this.plugin.settings.processedLedger.find(entry => entry.hash === hash);
+            if (existing) {
+                console.log(`Skipping ${sourceName}: already processed from ${existing.sourcePath} on ${window.moment(existing.processedAt).format('YYYY-MM-DD HH:mm')}`);
+                this.processedFiles.add(sourcePath);
+                await this.finishSource(profile, source);
+                return 'skipped';
+            }
+
+            // Files from outside the vault are brought in first; the copy becomes the note's attachment
+            if (typeof source === 'string') {
+                imported = await this.importExternalFile(source, data);
+            }
+            const file = imported || (source as TFile);
+
+            // Notebook and page in the filename win over the profile's notebook and page counter.
+            // Jobs for a profile run one at a time, so the counter is current here.
+            const notebook = profile.notebookId ? this.plugin.settings.notebooks.find(n => n.id === profile.notebookId) || null : null;
+            const metadata = this.parseFilename(profile, file.basename);
+            const fileNotebook = metadata.notebook || notebook;
+            if (metadata.unknownNotebook) {
+                new Notice(`⚠️ ${file.name} names notebook "${metadata.unknownNotebook}", which doesn't exist. ${notebook ? `Filing it as the next page of ${notebook.name} instead` : 'Filing it without a notebook'}; the page number in the name is ignored.`);
+            }
+            let pageNumber: number | null = null;
+            if (metadata.page) {
+                pageNumber = metadata.page;
+            } else if (fileNotebook) {
+                pageNumber = fileNotebook.currentPage || null;
+            }
+
+            let notePaths: string[];
+            if (file.extension.toLowerCase() === 'pdf') {
+                // Handle PDF processing (one note per page)
+                notePaths = await this.processPdfFile(profile, file, fileNotebook, pageNumber, metadata, !!imported, transaction);
+            } else {
+                // Handle image processing
+                notePaths = await this.processImageFile(profile, file, fileNotebook, pageNumber, metadata, !!imported, transaction);
+            }
+
+            // Mark as processed
+            this.processedFiles.add(sourcePath);
+            this.failedAttempts.delete(sourcePath);
+            this.plugin.settings.processedLedger.push({
+                hash,
+                profileId: profile.id,
+                sourcePath,
+                notePaths,
+                model: this.plugin.getProvider(fileNotebook).modelName,
+                processedAt: Date.now()
+            });
+
+            // Update page number if using notebook
+            if (metadata.page && fileNotebook) {
+                // Keep the notebook's counter ahead of any page number read from a filename
+                const nextPage = metadata.page + notePaths.length;
+                if (nextPage > fileNotebook.currentPage) {
+                    fileNotebook.currentPage = nextPage;
+                }
+            } else if (fileNotebook && pageNumber && profile.autoIncrementPages) {
+                fileNotebook.currentPage = pageNumber + notePaths.length;
+            }
+            await this.plugin.saveSettings();
+
+            // Move or delete the original file
+            await this.finishSource(profile, source);
+            return 'processed';
+
+        } catch (error) {
+            console.error(`Failed to process ${sourceName}:`, error);
+
+            // Undo any notes, attachments and tasks written before the failure
+            const cleanup = await transaction.rollback();
+
+            // The original is still outside the vault, so the imported copy isn't needed
+            if (imported && this.plugin.app.vault.getAbstractFileByPath(imported.path)) {
+                await this.plugin.app.vault.delete(imported)
+                    .then(() => cleanup.push(`removed ${imported?.name}`))
+                    .catch(deleteError => console.error(`Failed to remove imported copy ${imported?.path}:`, deleteError));
+            }
+            await this.recordFailure(profile, source, error);
+            throw new ProcessingFailedError(error, cleanup);
+        } finally {
+            window.clearInterval(renewal);
+            await this.releaseFile(sourcePath);
+            this.queue.delete(sourcePath);
+            this.notifyChange();
+        }
+    }
+
+    // Returns the paths of the notes that were created
+    // imported: the file was copied in from outside the vault and already sits in the attachment folder
+    async processImageFile(profile: FolderMonitorProfile, file: TFile, notebook: Notebook | null, pageNumber: number | null, metadata: FilenameMetadata, imported = false, transaction?: ProcessingTransaction): Promise<string[]> {
+        // Read the image data
+        const imageData = await this.plugin.app.vault.readBinary(file);
+        const preprocessed = await this.plugin.preprocessImage(imageData);
+
+        // Call Gemini API
+        const processed = await this.plugin.processImageWithGemini(preprocessed.data, notebook, { mimeType: preprocessed.mimeType, preprocessed: true, prompt: profile.prompt || undefined });
+        let resultText = processed.markdown;
+
+        // Nobody is around to ask, so keep the expected number and leave the conflict in the note's properties
+        const expectedPage = pageNumber;
+        pageNumber = this.plugin.resolvePageNumber(notebook, pageNumber, processed);
+        if (notebook && expectedPage && processed.pageNumber && processed.pageNumber !== expectedPage) {
+            new Notice(`⚠️ ${file.name} reads as page ${processed.pageNumber} but was filed as page ${expectedPage} of ${notebook.name}`);
+        }
+
+        // Process triggers if enabled
+        if (this.plugin.settings.enableTriggerWords) {
+            resultText = await this.plugin.processTriggersInText(resultText, this.plugin.getProvider(notebook), transaction);
+        }
+
+        // Extract location if enabled
+        let locationTag: string | null = null;
+        if (this.plugin.settings.enableLocationTagging) {
+            locationTag = await this.plugin.extractLocationFromImage(imageData);
+        }
+
+        const detectedTags = [...this.getProfileTags(profile), ...metadata.tags, ...processed.tags];
+
+        // Create the output folder
+        const outputFolder = await this.plugin.getAndEnsureFolder(profile.outputFolder);
+
+        // Create note
+        const timestamp = window.moment().format('YYYY-MM-DD HH-mm-ss');
+        const baseName = file.basename;
+
+        let noteFileName: string;
+        if (notebook && pageNumber) {
+            noteFileName = `${baseName} - Page ${pageNumber} - Auto.md`;
+        } else {
+            noteFileName = `${baseName} - ${timestamp}.md`;
+        }
+
+        const noteFilePath = outputFolder ? `${outputFolder}/${noteFileName}` : noteFileName;
+
+        // Build note content
+        let noteContent = '';
+
+        if (this.plugin.settings.enableDiscussionLinks) {
+            const encodedPath = encodeURIComponent(noteFilePath);
+            noteContent += `[${this.plugin.settings.discussionLinkText}](obsidian://gemini-discuss?file=${encodedPath})\n\n`;
+        }
+
+        // Copy the image to attachments folder if needed
+        const attachmentFolder = await this.plugin.getAndEnsureFolder(this.plugin.settings.attachmentLocation);
+        const attachResized = !this.plugin.settings.imagePreprocessing.keepOriginal && preprocessed.data !== imageData;
+        const newImagePath = attachResized
+            ? this.getAvailablePath(`${attachmentFolder}/${file.basename}.jpg`)
+            : imported ? file.path : `${attachmentFolder}/${file.name}`;
+
+        // Copy file if not deleting original
+        if (attachResized) {
+            transaction?.trackFile(await this.plugin.app.vault.createBinary(newImagePath, preprocessed.data));
+            noteContent += `![[${newImagePath}]]\n`;
+        } else if (imported) {
+            noteContent += `![[${newImagePath}]]\n`;
+        } else if (!profile.deleteAfterProcessing) {
+            transaction?.trackFile(await this.plugin.app.vault.copy(file, newImagePath));
+            noteContent += `![[${newImagePath}]]\n`;
+        } else {
+            noteContent += `![[${file.path}]]\n`;
+        }
+
+        noteContent += `\n> **Source:** Auto-processed from monitored folder (${profile.name})\n`;
+        noteContent += `> **Original file:** ${file.name}\n`;
+
+        if (notebook && pageNumber) {
+            noteContent += `> **Notebook:** ${notebook.name} | **Page:** ${pageNumber}\n`;
+        }
+
+        noteContent += `\n---\n${resultText}\n---`;
+
+        // Create the note
+        const newNoteFile = await this.plugin.app.vault.create(noteFilePath, noteContent);
+        transaction?.trackFile(newNoteFile);
+
+        // Update note properties
+        const imageFile = !attachResized && (imported || profile.deleteAfterProcessing) ? file : this.plugin.app.vault.getAbstractFileByPath(newImagePath) as TFile;
+        await this.plugin.updateNoteProperties(imageFile, newNoteFile, detectedTags, locationTag, notebook?.id || null, pageNumber, processed.title);
+        await this.plugin.recordPageInfo(newNoteFile, processed, pageNumber);
+        await this.applyFilenameDate(newNoteFile, metadata);
+
+        // The resized copy replaces the full-size one imported from outside the vault
+        if (attachResized && imported) {
+            await this.plugin.app.vault.delete(file);
+        }
+        return [newNoteFile.path];
+    }
+
+    // Split a PDF into one note per page. Returns the paths of the page notes, in page order.
+    async processPdfFile(profile: FolderMonitorProfile, file: TFile, notebook: Notebook | null, pageNumber: number | null, metadata: FilenameMetadata, imported = false, transaction?: ProcessingTransaction): Promise<string[]> {
+        const settings = this.plugin.settings.folderMonitor;
+        const pdfData = await this.plugin.app.vault.readBinary(file);
+        const provider = this.plugin.getProvider(notebook);
+
+        // Only Gemini reads PDFs natively; everything else gets rendered pages
+        const inline = settings.pdfMode === 'inline' && provider.id === 'gemini';
+        const pageImages = inline ? [] : await renderPdfPages(pdfData);
+        const pageCount = inline ? await getPdfPageCount(pdfData) : pageImages.length;
+
+        if (pageCount === 0) {
+            throw new Error('PDF has no pages');
+        }
+
+        // Run every page through the model before writing anything, so a failure
+        // part way through doesn't leave a half-imported document behind. Inline, the PDF is sent once for all pages.
+        const inlinePages = inline ? await this.plugin.processPdfWithGemini(pdfData, notebook, pageCount, { prompt: profile.prompt || undefined }) : [];
+        const results: { processed: ProcessedNote; text: string }[] = [];
+        for (let i = 0; i < pageCount; i++) {
+            console.log(`Processing page ${i + 1}/${pageCount} of ${file.name}`);
+            const processed = inline
+                ? inlinePages[i]
+                : await this.plugin.processImageWithGemini(pageImages[i], notebook, { mimeType: 'image/png', prompt: profile.prompt || undefined });
+
+            let text = processed.markdown;
+            if (this.plugin.settings.enableTriggerWords) {
+                text = await this.plugin.processTriggersInText(text, provider, transaction);
+            }
+            results.push({ processed, text });
+        }
 
-        quickPrompts.forEach(({ icon, text, prompt }) => {
-            const btn = quickActions.createEl('button', {
-                text: `${icon} ${text}`,
-                cls: 'clickable-icon'
-            });
-            btn.style.cssText = 'font-size: 11px; padding: 3px 6px;';
-            btn.onclick = () => {
-                this.inputField.value = prompt;
-                this.sendMessage();
-            };
-        });
+        const outputFolder = await this.plugin.getAndEnsureFolder(profile.outputFolder);
+        const attachmentFolder = await this.plugin.getAndEnsureFolder(this.plugin.settings.attachmentLocation);
 
-        // Input container
-        const inputContainer = inputArea.createDiv({ cls: 'input-container' });
-        inputContainer.style.cssText = 'display: flex; gap: 8px;';
+        // The notes link to the PDF itself, so rather than keeping a copy the original is filed now: in the
+        // Processed folder, or with the attachments when originals are deleted. handleProcessedFile then leaves it be.
+        const pdfFile = file;
+        if (!imported) {
+            const original = file.path;
+            const targetFolder = profile.deleteAfterProcessing ? attachmentFolder : await this.plugin.getAndEnsureFolder(profile.processedFolder);
+            await this.plugin.app.fileManager.renameFile(file, this.getAvailablePath(targetFolder ? `${targetFolder}/${file.name}` : file.name));
+            transaction?.onRollback(`moved ${file.name} back`, () => this.plugin.app.fileManager.renameFile(file, original));
+        }
 
-        this.inputField = inputContainer.createEl('textarea', {
-            cls: 'gemini-input',
-            attr: {
-                placeholder: 'Ask Gemini about this note...',
-                rows: '2'
+        const pageImageFiles: TFile[] = [];
+        for (let i = 0; i < pageImages.length; i++) {
+            const imageName = `${file.basename} - Page ${i + 1}.png`;
+            const imagePath = this.getAvailablePath(attachmentFolder ? `${attachmentFolder}/${imageName}` : imageName);
+            const pageImageFile = await this.plugin.app.vault.createBinary(imagePath, pageImages[i]);
+            transaction?.trackFile(pageImageFile);
+            pageImageFiles.push(pageImageFile);
+        }
+
+        // Work out every note path up front so pages can link to each other
+        const timestamp = window.moment().format('YYYY-MM-DD HH-mm-ss');
+        const notePaths: string[] = [];
+        for (let i = 0; i < pageCount; i++) {
+            const notebookPage = notebook && pageNumber ? pageNumber + i : null;
+            const noteFileName = notebookPage
+                ? `${file.basename} - Page ${notebookPage} - Auto.md`
+                : `${file.basename} - ${timestamp} - p${i + 1}.md`;
+            notePaths.push(this.getAvailablePath(outputFolder ? `${outputFolder}/${noteFileName}` : noteFileName, notePaths));
+        }
+
+        for (let i = 0; i < pageCount; i++) {
+            const { processed, text } = results[i];
+            const notebookPage = notebook && pageNumber ? pageNumber + i : null;
+            const noteFilePath = notePaths[i];
+
+            let noteContent = '';
+
+            if (this.plugin.settings.enableDiscussionLinks) {
+                const encodedPath = encodeURIComponent(noteFilePath);
+                noteContent += `[${this.plugin.settings.discussionLinkText}](obsidian://gemini-discuss?file=${encodedPath})\n\n`;
             }
-        });
-        this.inputField.style.cssText = `
-            flex: 1;
-            resize: none;
-            padding: 8px;
-            border-radius: 6px;
-            border: 1px solid var(--background-modifier-border);
-            font-size: 14px;
-        `;
 
-        this.sendButton = inputContainer.createEl('button', {
-            cls: 'mod-cta',
-            text: '➤'
-        });
-        this.sendButton.style.cssText = `
-            width: 40px;
-            height: 40px;
-            border-radius: 50%;
-            align-self: flex-end;
-        `;
+            if (inline) {
+                noteContent += `![[${pdfFile.path}#page=${i + 1}]]\n`;
+            } else {
+                noteContent += `![[${pageImageFiles[i].path}]]\n`;
+            }
 
-        // Event handlers
-        this.sendButton.onclick = () => this.sendMessage();
-        this.inputField.addEventListener('keydown', (e) => {
-            if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault();
-                this.sendMessage();
+            noteContent += `\n> **Source:** Auto-processed from monitored folder (${profile.name})\n`;
+            noteContent += `> **Original file:** [[${pdfFile.path}|${file.name}]] (page ${i + 1} of ${pageCount})\n`;
+
+            if (notebook && notebookPage) {
+                noteContent += `> **Notebook:** ${notebook.name} | **Page:** ${notebookPage}\n`;
             }
-        });
 
-        // Auto-resize textarea
-        this.inputField.addEventListener('input', () => {
-            this.inputField.style.height = 'auto';
-            this.inputField.style.height = Math.min(this.inputField.scrollHeight, 120) + 'px';
-        });
-    }
+            const navigation: string[] = [];
+            if (i > 0) navigation.push(`← [[${notePaths[i - 1].replace(/\.md$/, '')}|Previous page]]`);
+            if (i < pageCount - 1) navigation.push(`[[${notePaths[i + 1].replace(/\.md$/, '')}|Next page]] →`);
+            if (navigation.length > 0) {
+                noteContent += `> ${navigation.join(' | ')}\n`;
+            }
 
-    async loadNote(file: TFile) {
-        this.sourceFile = file;
-        this.noteContent = await this.app.vault.read(file);
-        this.sourceFileDisplay.setText(`Discussing: ${file.basename}`);
+            noteContent += `\n---\n${text}\n---`;
 
-        // Clear previous chat
-        this.chatContainer.empty();
+            const newNoteFile = await this.plugin.app.vault.create(noteFilePath, noteContent);
+            transaction?.trackFile(newNoteFile);
 
-        // Load existing discussion if it exists
-        const discussionPath = await this.getDiscussionPath(file);
-        const discussionFile = this.app.vault.getAbstractFileByPath(discussionPath);
+            const imageFile = inline ? pdfFile : pageImageFiles[i];
+            await this.plugin.updateNoteProperties(imageFile, newNoteFile, [...this.getProfileTags(profile), ...metadata.tags, ...processed.tags], null, notebook?.id || null, notebookPage, processed.title);
+            await this.plugin.recordPageInfo(newNoteFile, processed, notebookPage);
+            await this.applyFilenameDate(newNoteFile, metadata);
+            await this.plugin.app.fileManager.processFrontMatter(newNoteFile, (frontmatter) => {
+                frontmatter.source_pdf = pdfFile.name;
+                frontmatter.pdf_page = i + 1;
+            });
+        }
 
-        if (discussionFile instanceof TFile) {
-            const content = await this.app.vault.read(discussionFile);
-            const entries = this.parseDiscussionHistory(content);
+        return notePaths;
+    }
 
-            entries.forEach(entry => {
-                this.addMessage(entry.question, 'user');
-                this.addMessage(entry.response, 'assistant');
+    // Append a counter to a path until it doesn't collide with an existing file
+    // (or with one of the paths already reserved by the caller)
+    getAvailablePath(path: string, reserved: string[] = []): string {
+        const dot = path.lastIndexOf('.');
+        const base = dot > path.lastIndexOf('/') ? path.substring(0, dot) : path;
+        const ext = dot > path.lastIndexOf('/') ? path.substring(dot) : '';
+
+        let candidate = path;
+        let counter = 1;
+        while (this.plugin.app.vault.getAbstractFileByPath(candidate) || reserved.includes(candidate)) {
+            candidate = `${base} ${counter}${ext}`;
+            counter++;
+        }
+        return candidate;
+    }
+
+    // Retry a failed file with backoff, or quarantine it once it has used up its attempts
+    private async recordFailure(profile: FolderMonitorProfile, source: MonitorSource, error: unknown) {
+        const settings = this.plugin.settings.folderMonitor;
+        const sourcePath = this.getSourcePath(source);
+        const sourceName = this.getSourceName(source);
+        const attempts = (this.failedAttempts.get(sourcePath)?.attempts || 0) + 1;
+
+        // A blocked response will be blocked again, so don't bother retrying
+        const permanent = error instanceof GeminiSafetyError;
+
+        if (!permanent && attempts < settings.maxAttempts) {
+            const delayMs = Math.min(FILE_RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), FILE_RETRY_MAX_DELAY_MS);
+            this.failedAttempts.set(sourcePath, {
+                path: sourcePath,
+                profileId: profile.id,
+                attempts,
+                nextAttemptAt: Date.now() + delayMs,
+                error: describeGeminiError(error)
             });
 
-            if (entries.length > 0) {
-                this.addDivider('Previous discussion loaded');
+            const timeoutId = window.setTimeout(() => {
+                this.retryTimeouts.delete(timeoutId);
+                this.checkProfile(profile);
+            }, delayMs);
+            this.retryTimeouts.add(timeoutId);
+
+            new Notice(`Failed to process ${sourceName}: ${describeGeminiError(error)} Retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempts}/${settings.maxAttempts}).`);
+            return;
+        }
+
+        this.failedAttempts.delete(sourcePath);
+
+        try {
+            await this.quarantineFile(profile, source, error, attempts);
+            new Notice(`Failed to process ${sourceName}: ${describeGeminiError(error)} Moved to ${settings.failedFolder}.`);
+        } catch (quarantineError) {
+            console.error(`Failed to quarantine ${sourceName}:`, quarantineError);
+            new Notice(`Failed to process ${sourceName}: ${describeGeminiError(error)}`);
+        }
+    }
+
+    private async quarantineFile(profile: FolderMonitorProfile, source: MonitorSource, error: unknown, attempts: number) {
+        const settings = this.plugin.settings.folderMonitor;
+        const failedFolder = await this.plugin.getAndEnsureFolder(settings.failedFolder);
+        const originalPath = this.getSourcePath(source);
+        const name = this.getSourceName(source);
+        const quarantinePath = this.getAvailablePath(failedFolder ? `${failedFolder}/${name}` : name);
+
+        if (typeof source === 'string') {
+            // Bring the file into the vault's Failed folder so it's visible alongside the others
+            await this.plugin.app.vault.createBinary(quarantinePath, await this.readSource(source));
+            await nodeFs().promises.unlink(source);
+        } else {
+            await this.plugin.app.fileManager.renameFile(source, quarantinePath);
+        }
+
+        const entry: QuarantinedFile = {
+            path: quarantinePath,
+            originalPath,
+            external: typeof source === 'string',
+            profileId: profile.id,
+            category: error instanceof GeminiError ? error.category : 'unknown',
+            message: describeGeminiError(error),
+            attempts,
+            failedAt: Date.now()
+        };
+        this.plugin.settings.quarantinedFiles.push(entry);
+        await this.plugin.saveSettings();
+        this.notifyChange();
+
+        await this.appendFailureLog(profile, entry);
+        console.log(`Quarantined ${originalPath} to ${quarantinePath} after ${attempts} attempt(s)`);
+    }
+
+    private async appendFailureLog(profile: FolderMonitorProfile, entry: QuarantinedFile) {
+        let logPath = this.plugin.settings.folderMonitor.failureLogPath.trim();
+        if (!logPath) return;
+        if (!logPath.endsWith('.md')) logPath += '.md';
+
+        const fileName = entry.originalPath.split(/[\\/]/).pop();
+        const line = `- ${window.moment(entry.failedAt).format('YYYY-MM-DD HH:mm')} **${fileName}** (${profile.name}) \`${entry.category}\` after ${entry.attempts} attempt(s): ${entry.message} [[${entry.path}]]\n`;
+
+        const logFile = this.plugin.app.vault.getAbstractFileByPath(logPath);
+        if (logFile instanceof TFile) {
+            await this.plugin.app.vault.append(logFile, line);
+        } else {
+            const slash = logPath.lastIndexOf('/');
+            if (slash > 0) await this.plugin.getAndEnsureFolder(logPath.substring(0, slash));
+            await this.plugin.app.vault.create(logPath, `# Folder Monitor Failures\n\n${line}`);
+        }
+    }
+
+    // Move quarantined files (all of them unless given) back to where they came from and try again
+    async requeueQuarantined(entries: QuarantinedFile[] = this.plugin.settings.quarantinedFiles): Promise<number> {
+        let requeued = 0;
+
+        for (const entry of entries) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                console.log(`Quarantined file no longer exists: ${entry.path}`);
+                continue;
+            }
+
+            try {
+                let targetPath: string;
+                if (entry.external) {
+                    if (!Platform.isDesktopApp) {
+                        console.log(`Skipping ${entry.path}: it came from outside the vault and can only be re-queued on desktop`);
+                        continue;
+                    }
+                    // Put it back on disk where the scanner left it
+                    const fs = nodeFs();
+                    await fs.promises.mkdir(nodePath().dirname(entry.originalPath), { recursive: true });
+                    targetPath = this.getAvailableFsPath(entry.originalPath);
+                    await fs.promises.writeFile(targetPath, new Uint8Array(await this.plugin.app.vault.readBinary(file)));
+                    await this.plugin.app.vault.delete(file);
+                } else {
+                    const slash = entry.originalPath.lastIndexOf('/');
+                    if (slash > 0) await this.plugin.getAndEnsureFolder(entry.originalPath.substring(0, slash));
+
+                    targetPath = this.getAvailablePath(entry.originalPath);
+                    await this.plugin.app.fileManager.renameFile(file, targetPath);
+                }
+                this.failedAttempts.delete(targetPath);
+                this.processedFiles.delete(targetPath);
+                requeued++;
+            } catch (error) {
+                console.error(`Failed to re-queue ${entry.path}:`, error);
             }
         }
 
-        // Add welcome message if no history
-        if (this.chatContainer.children.length === 0) {
-            this.addMessage(`I'm ready to discuss "${file.basename}". What would you like to know?`, 'assistant');
+        // Anything that couldn't be moved is still in the Failed folder, so keep its record
+        this.plugin.settings.quarantinedFiles = this.plugin.settings.quarantinedFiles.filter(entry => {
+            return this.plugin.app.vault.getAbstractFileByPath(entry.path) instanceof TFile;
+        });
+        await this.plugin.saveSettings();
+        this.notifyChange();
+
+        if (this.running) {
+            this.checkFolder();
         }
+        return requeued;
     }
 
-    async sendMessage() {
-        const message = this.inputField.value.trim();
-        if (!message || !this.sourceFile) return;
+    // Try a file waiting on backoff straight away
+    retryNow(path: string) {
+        const item = this.failedAttempts.get(path);
+        const profile = item && this.plugin.settings.folderMonitor.profiles.find(p => p.id === item.profileId);
+        if (!item || !profile) return;
 
-        // Disable input
-        this.inputField.disabled = true;
-        this.sendButton.disabled = true;
+        item.nextAttemptAt = 0;
+        this.checkProfile(profile, true);
+    }
 
-        // Add user message
-        this.addMessage(message, 'user');
+    async setPaused(profile: FolderMonitorProfile, paused: boolean) {
+        profile.paused = paused;
+        await this.plugin.saveSettings();
+        this.notifyChange();
 
-        // Clear input
-        this.inputField.value = '';
-        this.inputField.style.height = 'auto';
+        if (!paused && this.running) {
+            this.checkProfile(profile);
+        }
+    }
 
-        // Add loading indicator
-        const loadingEl = this.addMessage('Thinking...', 'assistant');
-        loadingEl.style.opacity = '0.6';
+    // Match the file name against the profile's filename patterns (one regex per line, first match wins).
+    // Named groups: notebook, page, date and tags.
+    parseFilename(profile: FolderMonitorProfile, baseName: string): FilenameMetadata {
+        const metadata: FilenameMetadata = { notebook: null, unknownNotebook: null, page: null, date: null, tags: [] };
 
-        try {
-            // Get response from Gemini
-            const response = await this.plugin.discussWithGemini(this.noteContent, message);
+        const patterns = profile.filenamePatterns.split('\n').map(line => line.trim()).filter(line => line);
+        for (const pattern of patterns) {
+            let match: RegExpMatchArray | null;
+            try {
+                match = baseName.match(new RegExp(pattern, 'i'));
+            } catch (error) {
+                console.warn(`Invalid filename pattern in ${profile.name}: ${pattern}`, error);
+                continue;
+            }
 
-            // Remove loading
-            this.chatContainer.removeChild(loadingEl);
+            const groups = match?.groups;
+            if (!match || !groups) continue;
 
-            // Add response
-            this.addMessage(response, 'assistant');
+            if (groups.notebook) {
+                metadata.notebook = this.findNotebookByName(groups.notebook);
+                if (!metadata.notebook) {
+                    console.warn(`No notebook matches "${groups.notebook}" from ${baseName}`);
+                    metadata.unknownNotebook = groups.notebook;
+                }
+            }
 
-            // Save to discussion file
-            if (this.sourceFile) {
-                const discussionPath = await this.getDiscussionPath(this.sourceFile);
-                await this.plugin.appendToDiscussionFile(
-                    discussionPath,
-                    message,
-                    response,
-                    this.sourceFile
-                );
+            // A page number only means something in the notebook it came with
+            if (groups.page && !metadata.unknownNotebook) {
+                const page = parseInt(groups.page, 10);
+                if (!isNaN(page) && page > 0) metadata.page = page;
             }
-        } catch (error) {
-            this.chatContainer.removeChild(loadingEl);
-            this.addMessage('Failed to get response. Please try again.', 'error');
-            console.error('Gemini chat error:', error);
-        } finally {
-            this.inputField.disabled = false;
-            this.sendButton.disabled = false;
-            this.inputField.focus();
+
+            if (groups.date) {
+                const date = window.moment(groups.date, ['YYYY-MM-DD', 'YYYYMMDD', 'YYYY_MM_DD', 'YYYY.MM.DD', 'DD-MM-YYYY'], true);
+                if (date.isValid()) metadata.date = date.format('YYYY-MM-DD');
+            }
+
+            if (groups.tags) {
+                metadata.tags = groups.tags.split(/[,+\s]+/).map(tag => tag.replace(/^#/, '').trim()).filter(tag => tag);
+            }
+
+            break;
         }
+
+        return metadata;
     }
 
-    addMessage(content: string, type: 'user' | 'assistant' | 'error'): HTMLElement {
-        const messageEl = this.chatContainer.createDiv({
-            cls: `gemini-message gemini-message-${type}`
+    // Accept a notebook's id, exact name, or name ignoring case, spaces and punctuation ("NB 3" matches "nb3")
+    private findNotebookByName(value: string): Notebook | null {
+        const notebooks = this.plugin.settings.notebooks;
+        const simplify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+        return notebooks.find(n => n.id === value)
+            || notebooks.find(n => n.name.toLowerCase() === value.toLowerCase())
+            || notebooks.find(n => simplify(n.name) === simplify(value))
+            || null;
+    }
+
+    private async applyFilenameDate(noteFile: TFile, metadata: FilenameMetadata) {
+        if (!metadata.date) return;
+        await this.plugin.app.fileManager.processFrontMatter(noteFile, (frontmatter) => {
+            frontmatter.created = metadata.date;
         });
+    }
 
-        const baseStyle = `
-            padding: 10px 14px;
-            border-radius: 12px;
-            max-width: 85%;
-            word-wrap: break-word;
-        `;
+    private getProfileTags(profile: FolderMonitorProfile): string[] {
+        return profile.tags.split(',').map(tag => tag.trim()).filter(tag => tag);
+    }
 
-        if (type === 'user') {
-            messageEl.style.cssText = baseStyle + `
-                background: var(--interactive-accent);
-                color: var(--text-on-accent);
-                align-self: flex-end;
-                margin-left: auto;
-            `;
-        } else if (type === 'assistant') {
-            messageEl.style.cssText = baseStyle + `
-                background: var(--background-secondary);
-                align-self: flex-start;
-            `;
-        } else {
-            messageEl.style.cssText = baseStyle + `
-                background: var(--background-modifier-error);
-                align-self: center;
-            `;
+    // Same as getAvailablePath, for filesystem paths outside the vault
+    getAvailableFsPath(filePath: string): string {
+        const fs = nodeFs();
+        const path = nodePath();
+        const ext = path.extname(filePath);
+        const base = filePath.substring(0, filePath.length - ext.length);
+
+        let candidate = filePath;
+        let counter = 1;
+        while (fs.existsSync(candidate)) {
+            candidate = `${base} ${counter}${ext}`;
+            counter++;
         }
+        return candidate;
+    }
 
-        // Render markdown
-        MarkdownRenderer.renderMarkdown(content, messageEl, '', this.plugin);
+    // Move or delete an original outside the vault. A relative Processed folder is resolved against the watch folder.
+    async handleExternalProcessedFile(profile: FolderMonitorProfile, sourcePath: string) {
+        const fs = nodeFs();
+        const path = nodePath();
 
-        // Scroll to bottom
-        this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+        if (profile.deleteAfterProcessing) {
+            await fs.promises.unlink(sourcePath);
+            console.log(`Deleted processed file: ${sourcePath}`);
+            return;
+        }
 
-        return messageEl;
+        const processedFolder = expandHomePath(profile.processedFolder);
+        const targetFolder = path.isAbsolute(processedFolder)
+            ? processedFolder
+            : path.join(expandHomePath(profile.watchFolder), processedFolder);
+
+        await fs.promises.mkdir(targetFolder, { recursive: true });
+        const newPath = this.getAvailableFsPath(path.join(targetFolder, path.basename(sourcePath)));
+        try {
+            await fs.promises.rename(sourcePath, newPath);
+        } catch (error) {
+            // rename can't cross devices (e.g. a network share); fall back to copy and delete
+            await fs.promises.copyFile(sourcePath, newPath);
+            await fs.promises.unlink(sourcePath);
+        }
+        console.log(`Moved processed file to: ${newPath}`);
     }
 
-    addDivider(text: string) {
-        const divider = this.chatContainer.createDiv({ cls: 'chat-divider' });
-        divider.style.cssText = `
-            text-align: center;
-            color: var(--text-muted);
-            font-size: 11px;
-            margin: 10px 0;
-            position: relative;
-        `;
-        divider.setText(text);
+    async handleProcessedFile(profile: FolderMonitorProfile, source: MonitorSource) {
+        if (typeof source === 'string') {
+            await this.handleExternalProcessedFile(profile, source);
+            return;
+        }
+
+        const file = source;
+        // Already filed alongside its notes (processPdfFile)
+        if (file.parent?.path !== this.getWatchFolderPath(profile)) return;
+
+        if (profile.deleteAfterProcessing) {
+            await this.plugin.app.vault.delete(file);
+            console.log(`Deleted processed file: ${file.name}`);
+        } else {
+            // Move to processed folder
+            const processedFolder = await this.plugin.getAndEnsureFolder(profile.processedFolder);
+            const newPath = `${processedFolder}/${file.name}`;
+            await this.plugin.app.fileManager.renameFile(file, newPath);
+            console.log(`Moved processed file to: ${newPath}`);
+        }
+    }
+
+    // Move or delete a processed original. If that fails the notes are kept, and the file is reported and
+    // left out of matching until it's moved by hand or the move is retried, rather than picked up on every check.
+    private async finishSource(profile: FolderMonitorProfile, source: MonitorSource) {
+        const sourcePath = this.getSourcePath(source);
+        try {
+            await this.handleProcessedFile(profile, source);
+            this.unmovedFiles.delete(sourcePath);
+        } catch (error) {
+            console.error(`Failed to move file ${sourcePath}:`, error);
+            const message = error instanceof Error ? error.message : String(error);
+            this.unmovedFiles.set(sourcePath, { path: sourcePath, profileId: profile.id, source, error: message });
+            new Notice(`⚠️ ${profile.name}: ${this.getSourceName(source)} was processed but couldn't be ${profile.deleteAfterProcessing ? 'deleted' : 'moved to the Processed folder'}: ${message}. It won't be processed again until it's moved.`, 0);
+        }
+        this.notifyChange();
     }
 
-    async getDiscussionPath(file: TFile): Promise<string> {
-        const folder = file.parent?.path || '';
-        const name = `${file.basename} - Discussion.md`;
-        return folder ? `${folder}/${name}` : name;
+    // Try moving a processed file that couldn't be moved before. Files since moved by hand are just dropped.
+    async retryMove(path: string) {
+        const item = this.unmovedFiles.get(path);
+        const profile = item && this.plugin.settings.folderMonitor.profiles.find(p => p.id === item.profileId);
+        if (!item) return;
+        const stillThere = typeof item.source === 'string'
+            ? nodeFs().existsSync(item.source)
+            : this.plugin.app.vault.getAbstractFileByPath(path) === item.source;
+        if (!profile || !stillThere) {
+            this.unmovedFiles.delete(path);
+            this.notifyChange();
+            return;
+        }
+        await this.finishSource(profile, item.source);
     }
+}
 
-    parseDiscussionHistory(content: string): Array<{ question: string, response: string }> {
-        const entries: Array<{ question: string, response: string }> = [];
-        const entryRegex = /## Discussion Entry - .*?\n\n\*\*Question:\*\* (.*?)\n\n\*\*Gemini's Response:\*\*\n([\s\S]*?)(?=\n---\n|$)/g;
-        let match;
 
-        while ((match = entryRegex.exec(content)) !== null) {
-            entries.push({
-                question: match[1],
-                response: match[2].trim()
-            });
-        }
+// Records what a processing run has written so a failure part way through can be undone,
+// leaving no half-made notes, orphaned attachments or stray tasks behind
+class ProcessingTransaction {
+    private app: App;
+    private undoSteps: { description: string; undo: () => Promise<void> }[] = [];
 
-        return entries;
+    constructor(app: App) {
+        this.app = app;
     }
 
-    async onClose() {
-        // Cleanup if needed
+    // A file created by this run; deleted on rollback
+    trackFile(file: TFile) {
+        this.onRollback(`removed ${file.name}`, () => this.app.vault.delete(file));
+    }
+
+    onRollback(description: string, undo: () => Promise<void>) {
+        this.undoSteps.push({ description, undo });
+    }
+
+    // Undo everything in reverse order. Returns a line per step for the failure report.
+    async rollback(): Promise<string[]> {
+        const report: string[] = [];
+        for (const step of this.undoSteps.reverse()) {
+            try {
+                await step.undo();
+                report.push(step.description);
+            } catch (error) {
+                console.error(`Rollback step failed (${step.description}):`, error);
+                report.push(`could not undo: ${step.description}`);
+            }
+        }
+        this.undoSteps = [];
+        return report;
     }
 }
 
+// How many finished jobs to keep for the queue view
+const FINISHED_JOB_HISTORY = 50;
+// How often to look for a connection while jobs are waiting for one, in case the 'online' event never fires
+const OFFLINE_RETRY_MS = 2 * 60 * 1000;
+// Body of a capture note made while offline, swapped for the transcript once it arrives
+const OFFLINE_PLACEHOLDER = '⏳ *Waiting for a connection. This note will be filled in automatically once the image has been processed.*';
+// Body of a capture note whose processing failed; the photo stays attached so nothing is lost
+const FAILED_CAPTURE_NOTE = '❌ *This page could not be processed. The photo is kept above: open it and run "Process current image with Gemini" to try again.*';
+
+function isActiveJob(job: ProcessingJob): boolean {
+    return job.status === 'queued' || job.status === 'running' || job.status === 'waiting';
+}
 
-// Add this class to handle folder monitoring
-class FolderMonitor {
+// Runs every capture, image and monitored file through one persisted queue, so work
+// interrupted by a reload picks up again on the next start. The queue is kept in local storage
+// rather than data.json, so each device only resumes its own jobs.
+class JobQueue {
     private plugin: GeminiNoteProcessor;
-    private intervalId: number | null = null;
-    private isProcessing: boolean = false;
-    private processedFiles: Set<string> = new Set();
+    private jobs: ProcessingJob[];
+    private activeGroups: Set<string> = new Set();
+    private runningCount = 0;
+    private started = false;
+    private waiters: Map<string, ((job: ProcessingJob) => void)[]> = new Map();
+    private listeners: Set<() => void> = new Set();
 
     constructor(plugin: GeminiNoteProcessor) {
         this.plugin = plugin;
+        const saved = plugin.app.loadLocalStorage(JOB_STORAGE_KEY);
+        this.jobs = Array.isArray(saved) ? saved : [];
     }
 
-    // Public method to check if monitor is running
-    public isRunning(): boolean {
-        return this.intervalId !== null;
-    }
-
+    // Resume whatever was left over from the last session
     start() {
-        if (!this.plugin.settings.folderMonitor.enabled) {
-            return;
+        let resumed = 0;
+        for (const job of this.jobs) {
+            if (job.status === 'running') {
+                job.status = 'queued';
+                job.startedAt = undefined;
+            }
+            if (job.status === 'queued') resumed++;
         }
+        if (resumed > 0) {
+            console.log(`Job queue: Resuming ${resumed} job${resumed === 1 ? '' : 's'} from the last session`);
+            new Notice(`Resuming ${resumed} queued processing job${resumed === 1 ? '' : 's'}`);
+        }
+        this.started = true;
+        this.pump();
+        this.resumeWaiting();
+    }
 
-        console.log('Starting folder monitor for:', this.plugin.settings.folderMonitor.watchFolder);
+    public getJobs(): ProcessingJob[] {
+        return [...this.jobs];
+    }
 
-        // Clear any existing interval
-        this.stop();
+    public onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
 
-        // Initial check
-        this.checkFolder();
+    private notifyChange() {
+        this.listeners.forEach(listener => listener());
+    }
 
-        // Set up interval
-        const intervalMs = this.plugin.settings.folderMonitor.checkInterval * 1000;
-        this.intervalId = window.setInterval(() => {
-            this.checkFolder();
-        }, intervalMs);
+    // Add a job, or return the one already queued or running for the same input
+    enqueue(label: string, key: string, params: ProcessingJobParams, group: string | null = null): ProcessingJob {
+        const existing = this.jobs.find(job => job.key === key && isActiveJob(job));
+        if (existing) return existing;
+
+        const job: ProcessingJob = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+            key,
+            group,
+            label,
+            status: 'queued',
+            createdAt: Date.now(),
+            params
+        };
+        this.jobs.push(job);
+        this.changed();
+        this.pump();
+        return job;
     }
 
-    stop() {
-        if (this.intervalId) {
-            window.clearInterval(this.intervalId);
-            this.intervalId = null;
-            console.log('Stopped folder monitor');
+    // Resolves once the job has finished, failed, been cancelled or been parked waiting for a connection
+    waitFor(job: ProcessingJob): Promise<ProcessingJob> {
+        if (job.status !== 'queued' && job.status !== 'running') {
+            return Promise.resolve(job);
         }
+        return new Promise(resolve => {
+            const waiting = this.waiters.get(job.id) || [];
+            waiting.push(resolve);
+            this.waiters.set(job.id, waiting);
+        });
     }
 
-    async checkFolder() {
-        if (this.isProcessing) {
-            console.log('Folder monitor: Already processing, skipping check');
-            return;
+    // Only queued or waiting jobs can be cancelled; a request that's already been sent runs to completion
+    cancel(jobId: string): boolean {
+        const job = this.jobs.find(j => j.id === jobId);
+        if (!job || (job.status !== 'queued' && job.status !== 'waiting')) return false;
+        this.finish(job, 'cancelled');
+        return true;
+    }
+
+    // Put jobs parked while offline back in the queue once there's a connection again
+    resumeWaiting() {
+        if (!navigator.onLine) return;
+        const waiting = this.jobs.filter(job => job.status === 'waiting');
+        if (waiting.length === 0) return;
+
+        console.log(`Job queue: Back online, retrying ${waiting.length} waiting job${waiting.length === 1 ? '' : 's'}`);
+        for (const job of waiting) {
+            job.status = 'queued';
+            job.error = undefined;
+            job.finishedAt = undefined;
         }
+        this.changed();
+        this.pump();
+    }
 
-        const settings = this.plugin.settings.folderMonitor;
-        const folder = this.plugin.app.vault.getAbstractFileByPath(settings.watchFolder);
+    clearFinished() {
+        this.jobs = this.jobs.filter(isActiveJob);
+        this.changed();
+    }
 
-        if (!folder || !(folder instanceof TFolder)) {
-            console.log('Watch folder not found:', settings.watchFolder);
-            return;
-        }
+    private changed() {
+        this.plugin.app.saveLocalStorage(JOB_STORAGE_KEY, this.jobs);
+        this.notifyChange();
+    }
 
-        // Get all files matching the pattern
-        const files = await this.getMatchingFiles(folder);
+    private pump() {
+        if (!this.started) return;
 
-        if (files.length === 0) {
-            return;
+        const limit = Math.max(1, this.plugin.settings.jobConcurrency);
+        for (const job of this.jobs) {
+            if (this.runningCount >= limit) break;
+            if (job.status !== 'queued') continue;
+            if (job.group && this.activeGroups.has(job.group)) continue;
+            this.run(job);
         }
+    }
 
-        console.log(`Found ${files.length} files to process`);
-        this.isProcessing = true;
+    private async run(job: ProcessingJob) {
+        job.status = 'running';
+        job.startedAt = Date.now();
+        this.runningCount++;
+        if (job.group) this.activeGroups.add(job.group);
+        this.changed();
 
         try {
-            await this.processFiles(files);
+            const result = await this.execute(job.params);
+            this.finish(job, 'done', result);
         } catch (error) {
-            console.error('Error processing files:', error);
-            new Notice('Folder monitor: Error processing files. Check console.');
+            if (error instanceof JobDeferredError) {
+                console.log(`Job waiting for a connection: ${job.label}`);
+                this.finish(job, 'waiting', undefined, 'Waiting for a connection');
+            } else {
+                console.error(`Job failed: ${job.label}`, error);
+                this.finish(job, 'failed', undefined, describeGeminiError(error));
+            }
         } finally {
-            this.isProcessing = false;
+            this.runningCount--;
+            if (job.group) this.activeGroups.delete(job.group);
+            this.pump();
         }
     }
 
-    async getMatchingFiles(folder: TFolder): Promise<TFile[]> {
-        const settings = this.plugin.settings.folderMonitor;
-        const matchingFiles: TFile[] = [];
+    private execute(params: ProcessingJobParams): Promise<string> {
+        switch (params.kind) {
+            case 'capture':
+                return this.plugin.runCaptureJob(params);
+            case 'existing':
+                return this.plugin.runExistingImageJob(params);
+            case 'monitor':
+                return this.plugin.folderMonitor.runJob(params);
+        }
+    }
 
-        // Create regex pattern from the file pattern
-        // Convert wildcards to regex: * -> .*, ? -> .
-        const regexPattern = settings.filePattern
-            .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape special regex chars
-            .replace(/\*/g, '.*') // Replace * with .*
-            .replace(/\?/g, '.'); // Replace ? with .
+    private finish(job: ProcessingJob, status: ProcessingJobStatus, result?: string, error?: string) {
+        job.status = status;
+        job.finishedAt = Date.now();
+        job.result = result;
+        job.error = error;
+
+        // Keep a short history of finished jobs for the queue view
+        const finished = this.jobs.filter(j => !isActiveJob(j));
+        if (finished.length > FINISHED_JOB_HISTORY) {
+            const drop = new Set(finished.slice(0, finished.length - FINISHED_JOB_HISTORY));
+            this.jobs = this.jobs.filter(j => !drop.has(j));
+        }
+        this.changed();
 
-        const regex = new RegExp(`^${regexPattern}\\.(png|pdf)$`, 'i');
+        const waiting = this.waiters.get(job.id) || [];
+        this.waiters.delete(job.id);
+        waiting.forEach(resolve => resolve(job));
+    }
+}
 
-        for (const child of folder.children) {
-            if (child instanceof TFile) {
-                // Check if file matches pattern
-                if (!regex.test(child.name)) {
-                    continue;
-                }
+// How long to wait after a page changes before rewriting its notebook's index, so a batch only rewrites it once
+const NOTEBOOK_INDEX_DELAY_MS = 2000;
+// Longest summary shown for a page in the index table
+const INDEX_SUMMARY_LENGTH = 140;
+
+// Frontmatter at the top of a note, including the closing fence
+const FRONTMATTER_BLOCK = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+const NOTEBOOK_STATUSES: Notebook['status'][] = ['active', 'completed', 'archived'];
+
+type NotebookRecord = Record<string, string | number | null>;
+
+// A notebook's fields as note properties; null means the property is left out
+function notebookToRecord(notebook: Notebook): NotebookRecord {
+    return {
+        id: notebook.id,
+        notebook: notebook.name,
+        status: notebook.status,
+        start_date: window.moment(notebook.startDate).format('YYYY-MM-DD'),
+        end_date: notebook.endDate ? window.moment(notebook.endDate).format('YYYY-MM-DD') : null,
+        current_page: notebook.currentPage,
+        total_pages: notebook.totalPages || null,
+        color: notebook.color || null,
+        description: notebook.description || null,
+        provider: notebook.provider || null
+    };
+}
 
-                // Check if file was created after last processed time
-                if (child.stat.ctime <= settings.lastProcessedTime) {
-                    continue;
-                }
+// A property's value as text, when it's a plain string or number
+function frontmatterText(value: unknown): string | undefined {
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
 
-                // Check if we've already processed this file in this session
-                if (this.processedFiles.has(child.path)) {
-                    continue;
-                }
+function notebookFromFrontmatter(frontmatter: FrontMatterCache | undefined, file: TFile): Notebook | null {
+    const id = frontmatterText(frontmatter?.id);
+    if (frontmatter?.type !== 'notebook' || !id) return null;
+    const startDate = frontmatterText(frontmatter.start_date);
+    const endDate = frontmatterText(frontmatter.end_date);
+    const status: unknown = frontmatter.status;
+    const provider: unknown = frontmatter.provider;
+    return {
+        id,
+        name: frontmatterText(frontmatter.notebook) || file.basename,
+        startDate: window.moment(startDate || file.stat.ctime).format('YYYY-MM-DD'),
+        endDate: endDate ? window.moment(endDate).format('YYYY-MM-DD') : undefined,
+        totalPages: parseInt(frontmatterText(frontmatter.total_pages) || '') || undefined,
+        currentPage: parseInt(frontmatterText(frontmatter.current_page) || '') || 1,
+        status: NOTEBOOK_STATUSES.find(s => s === status) || 'active',
+        color: frontmatterText(frontmatter.color),
+        description: frontmatterText(frontmatter.description),
+        provider: provider === 'gemini' || provider === 'openai-compatible' ? provider : undefined
+    };
+}
 
-                matchingFiles.push(child);
-            }
-        }
+// Each notebook is a note with `type: notebook` in its properties, so notebooks sync per file,
+// can be linked and queried, and two devices editing different notebooks don't overwrite each other.
+// settings.notebooks stays the in-memory list the rest of the plugin reads; saveSettings writes
+// back just the properties that changed, and edits synced in from elsewhere are picked up from the metadata cache.
+class NotebookStore {
+    private plugin: GeminiNoteProcessor;
+    private files: Map<string, TFile> = new Map();
+    // Each notebook's properties as last read or written, so only changed ones are written back
+    private snapshots: Map<string, NotebookRecord> = new Map();
+    loaded = false;
 
-        return matchingFiles;
+    constructor(plugin: GeminiNoteProcessor) {
+        this.plugin = plugin;
     }
 
-    async processFiles(files: TFile[]) {
-        const settings = this.plugin.settings.folderMonitor;
-        let notebook: Notebook | null = null;
-        let currentPageNumber: number | null = null;
+    // Read every notebook note, moving over any notebooks still kept in data.json
+    async start() {
+        const { metadataCache, vault } = this.plugin.app;
+        const notebooks: Notebook[] = [];
+        for (const file of vault.getMarkdownFiles()) {
+            const notebook = notebookFromFrontmatter(metadataCache.getFileCache(file)?.frontmatter, file);
+            if (!notebook) continue;
+            if (this.files.has(notebook.id)) {
+                console.warn(`Notebook store: ${file.path} has the same id as ${this.files.get(notebook.id)?.path}, ignoring it`);
+                continue;
+            }
+            this.files.set(notebook.id, file);
+            this.snapshots.set(notebook.id, notebookToRecord(notebook));
+            notebooks.push(notebook);
+        }
 
-        if (settings.useNotebook && settings.notebookId) {
-            notebook = this.plugin.settings.notebooks.find(n => n.id === settings.notebookId) || null;
-            currentPageNumber = notebook?.currentPage || null;
+        // One-time migration from settings (also catches a data.json synced from a device that hasn't migrated yet)
+        const legacy = this.plugin.settings.notebooks.filter(notebook => !this.files.has(notebook.id));
+        for (const notebook of legacy) {
+            try {
+                await this.create(notebook);
+                notebooks.push(notebook);
+            } catch (error) {
+                console.error(`Failed to move notebook ${notebook.name} into a note:`, error);
+                notebooks.push(notebook);
+            }
         }
 
-        const progressNotice = new Notice(`Processing ${files.length} files from monitored folder...`, 0);
+        this.plugin.settings.notebooks = notebooks;
+        this.loaded = true;
+        if (legacy.length > 0) {
+            await this.plugin.saveSettings();
+            new Notice(`Moved ${legacy.length} notebook${legacy.length === 1 ? '' : 's'} from settings into notes in ${this.plugin.settings.notebookIndexFolder || 'the vault root'}`);
+        }
 
-        for (let i = 0; i < files.length; i++) {
-            const file = files[i];
-            progressNotice.setMessage(`Processing ${i + 1}/${files.length}: ${file.name}`);
+        this.plugin.registerEvent(metadataCache.on('changed', (file, _data, cache) => this.onNoteChanged(file, cache.frontmatter)));
+        this.plugin.registerEvent(metadataCache.on('deleted', (file) => this.onNoteDeleted(file)));
+    }
 
-            try {
-                if (file.extension.toLowerCase() === 'pdf') {
-                    // Handle PDF processing
-                    await this.processPdfFile(file, notebook, currentPageNumber);
-                } else {
-                    // Handle image processing
-                    await this.processImageFile(file, notebook, currentPageNumber);
-                }
+    getFile(notebookId: string): TFile | null {
+        return this.files.get(notebookId) || null;
+    }
 
-                // Mark as processed
-                this.processedFiles.add(file.path);
+    getNotePath(notebook: Notebook): string {
+        const folder = this.plugin.settings.notebookIndexFolder.trim().replace(/\/+$/, '');
+        const name = `${notebook.name.replace(/[\\/:*?"<>|]/g, '-')}.md`;
+        return folder ? `${folder}/${name}` : name;
+    }
 
-                // Update page number if using notebook
-                if (notebook && currentPageNumber && settings.autoIncrementPages) {
-                    currentPageNumber++;
-                    notebook.currentPage = currentPageNumber;
-                }
+    async create(notebook: Notebook): Promise<TFile> {
+        const { vault, fileManager } = this.plugin.app;
+        await this.plugin.getAndEnsureFolder(this.plugin.settings.notebookIndexFolder);
 
-                // Move or delete the original file
-                await this.handleProcessedFile(file);
+        let path = this.getNotePath(notebook);
+        for (let i = 2; vault.getAbstractFileByPath(path); i++) {
+            path = this.getNotePath(notebook).replace(/\.md$/, ` ${i}.md`);
+        }
 
-                // Small delay between files
-                if (i < files.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                }
+        const file = await vault.create(path, '');
+        const record = notebookToRecord(notebook);
+        await fileManager.processFrontMatter(file, (frontmatter) => {
+            frontmatter.type = 'notebook';
+            for (const [key, value] of Object.entries(record)) {
+                if (value !== null) frontmatter[key] = value;
+            }
+            frontmatter.tags = ['notebook'];
+        });
+        this.files.set(notebook.id, file);
+        this.snapshots.set(notebook.id, record);
+        this.plugin.notebookIndexer?.schedule(notebook.id);
+        return file;
+    }
 
-            } catch (error) {
-                console.error(`Failed to process ${file.name}:`, error);
-                new Notice(`Failed to process ${file.name}`);
+    // Write back whatever changed in settings.notebooks since it was last read or written
+    async save() {
+        const { vault, fileManager } = this.plugin.app;
+        for (const notebook of this.plugin.settings.notebooks) {
+            const file = this.files.get(notebook.id);
+            if (!file) {
+                await this.create(notebook);
+                continue;
             }
-        }
 
-        // Update last processed time
-        settings.lastProcessedTime = Date.now();
-        await this.plugin.saveSettings();
+            const record = notebookToRecord(notebook);
+            const previous = this.snapshots.get(notebook.id) || {};
+            const changed = Object.keys(record).filter(key => record[key] !== previous[key]);
+            if (changed.length === 0) continue;
 
-        // Update notebook if used
-        if (notebook) {
-            await this.plugin.saveSettings();
+            this.snapshots.set(notebook.id, record);
+            await fileManager.processFrontMatter(file, (frontmatter) => {
+                for (const key of changed) {
+                    if (record[key] === null) {
+                        delete frontmatter[key];
+                    } else {
+                        frontmatter[key] = record[key];
+                    }
+                }
+            });
+
+            // Keep the note named after the notebook, in whichever folder it has been moved to
+            if (changed.includes('notebook')) {
+                const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+                const path = `${folder}${notebook.name.replace(/[\\/:*?"<>|]/g, '-')}.md`;
+                if (path !== file.path && !vault.getAbstractFileByPath(path)) {
+                    await fileManager.renameFile(file, path);
+                }
+            }
         }
+    }
 
-        progressNotice.hide();
-        new Notice(`✅ Processed ${files.length} files from monitored folder`);
+    // Remove a notebook and move its note to the trash; its page notes are kept
+    async delete(notebook: Notebook) {
+        const file = this.files.get(notebook.id);
+        this.forget(notebook.id);
+        if (file) await this.plugin.app.vault.trash(file, true);
     }
 
-    async processImageFile(file: TFile, notebook: Notebook | null, pageNumber: number | null) {
-        const settings = this.plugin.settings.folderMonitor;
+    private forget(notebookId: string) {
+        this.files.delete(notebookId);
+        this.snapshots.delete(notebookId);
+        const notebooks = this.plugin.settings.notebooks;
+        const index = notebooks.findIndex(n => n.id === notebookId);
+        if (index >= 0) notebooks.splice(index, 1);
+    }
 
-        // Read the image data
-        const imageData = await this.plugin.app.vault.readBinary(file);
+    // A notebook note was edited here or synced in from another device
+    private onNoteChanged(file: TFile, frontmatter: FrontMatterCache | undefined) {
+        const notebook = notebookFromFrontmatter(frontmatter, file);
+        if (!notebook) {
+            // No longer a notebook note
+            const id = [...this.files.entries()].find(([, f]) => f === file)?.[0];
+            if (id) this.forget(id);
+            return;
+        }
 
-        // Call Gemini API
-        let resultText = await this.plugin.callGeminiAPI(imageData);
-        if (!resultText) throw new Error("API call returned no text.");
+        const owner = this.files.get(notebook.id);
+        if (owner && owner !== file) return;
+        this.files.set(notebook.id, file);
 
-        // Process triggers if enabled
-        if (this.plugin.settings.enableTriggerWords) {
-            resultText = await this.plugin.processTriggersInText(resultText);
-        }
+        const record = notebookToRecord(notebook);
+        const previous = this.snapshots.get(notebook.id);
+        if (previous && Object.keys(record).every(key => record[key] === previous[key])) return;
+        this.snapshots.set(notebook.id, record);
 
-        // Extract location if enabled
-        let locationTag: string | null = null;
-        if (this.plugin.settings.enableLocationTagging) {
-            locationTag = await this.plugin.extractLocationFromImage(imageData);
+        // Update the existing object in place, since open modals and views hold on to it
+        const existing = this.plugin.settings.notebooks.find(n => n.id === notebook.id);
+        if (existing) {
+            Object.assign(existing, notebook);
+        } else {
+            this.plugin.settings.notebooks.push(notebook);
         }
+        this.plugin.notebookIndexer?.schedule(notebook.id);
+    }
 
-        // Parse detected tags
-        const detectedTags = this.plugin.parseDetectedTags(resultText);
+    private onNoteDeleted(file: TFile) {
+        const id = [...this.files.entries()].find(([, f]) => f === file)?.[0];
+        if (id) this.forget(id);
+    }
+}
 
-        // Create the output folder
-        const outputFolder = await this.plugin.getAndEnsureFolder(settings.outputFolder);
+interface NotebookIndexPage {
+    file: TFile;
+    page: number;
+    title: string;
+    image: TFile | null;
+    status?: string;
+    detectedPage?: number; // the number written on the page, when it was filed under another
+}
 
-        // Create note
-        const timestamp = window.moment().format('YYYY-MM-DD HH-mm-ss');
-        const baseName = file.basename;
+// What auditNotebook found wrong with a notebook's page numbering
+interface NotebookAudit {
+    pages: NotebookIndexPage[];
+    missing: number[];
+    duplicates: { page: number; notes: NotebookIndexPage[] }[];
+    beyondTotal: NotebookIndexPage[]; // numbered past the notebook's totalPages
+    unnumbered: NotebookIndexPage[];
+    mismatched: NotebookIndexPage[]; // filed under a different number than the one written on the page
+}
 
-        let noteFileName: string;
-        if (notebook && pageNumber) {
-            noteFileName = `${baseName} - Page ${pageNumber} - Auto.md`;
-        } else {
-            noteFileName = `${baseName} - ${timestamp}.md`;
-        }
+// One note's part of a renumbering: its new page number and path
+interface RenumberStep {
+    page: NotebookIndexPage;
+    newPage: number;
+    newPath: string;
+}
 
-        const noteFilePath = outputFolder ? `${outputFolder}/${noteFileName}` : noteFileName;
+// Fills each notebook's note with its details and a page-ordered table of its pages. Page notes are
+// found by their notebook_id property, and the table is rewritten whenever one changes.
+class NotebookIndexer {
+    private plugin: GeminiNoteProcessor;
+    private pending: Map<string, number> = new Map();
+    // Last notebook seen for each page note, so a page moved to another notebook refreshes both
+    private pageNotebooks: Map<string, string> = new Map();
 
-        // Build note content
-        let noteContent = '';
+    constructor(plugin: GeminiNoteProcessor) {
+        this.plugin = plugin;
+    }
 
-        if (this.plugin.settings.enableDiscussionLinks) {
-            const encodedPath = encodeURIComponent(noteFilePath);
-            noteContent += `[${this.plugin.settings.discussionLinkText}](obsidian://gemini-discuss?file=${encodedPath})\n\n`;
+    start() {
+        const { metadataCache, vault } = this.plugin.app;
+        for (const file of vault.getMarkdownFiles()) {
+            const notebookId = metadataCache.getFileCache(file)?.frontmatter?.notebook_id;
+            if (notebookId) this.pageNotebooks.set(file.path, String(notebookId));
         }
 
-        // Copy the image to attachments folder if needed
-        const attachmentFolder = await this.plugin.getAndEnsureFolder(this.plugin.settings.attachmentLocation);
-        const newImagePath = `${attachmentFolder}/${file.name}`;
+        this.plugin.registerEvent(metadataCache.on('changed', (file, _data, cache) => {
+            const previous = this.pageNotebooks.get(file.path);
+            const notebookId = cache.frontmatter?.notebook_id ? String(cache.frontmatter.notebook_id) : undefined;
+            if (notebookId) {
+                this.pageNotebooks.set(file.path, notebookId);
+                this.schedule(notebookId);
+            } else {
+                this.pageNotebooks.delete(file.path);
+            }
+            if (previous && previous !== notebookId) this.schedule(previous);
+        }));
+        this.plugin.registerEvent(metadataCache.on('deleted', (file, prevCache) => {
+            const notebookId = this.pageNotebooks.get(file.path) || prevCache?.frontmatter?.notebook_id;
+            this.pageNotebooks.delete(file.path);
+            if (notebookId) this.schedule(String(notebookId));
+        }));
+        this.plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+            const notebookId = this.pageNotebooks.get(oldPath);
+            if (!notebookId) return;
+            this.pageNotebooks.delete(oldPath);
+            this.pageNotebooks.set(file.path, notebookId);
+            this.schedule(notebookId);
+        }));
+
+        this.refreshAll();
+    }
 
-        // Copy file if not deleting original
-        if (!settings.deleteAfterProcessing) {
-            await this.plugin.app.vault.copy(file, newImagePath);
-            noteContent += `![[${newImagePath}]]\n`;
-        } else {
-            noteContent += `![[${file.path}]]\n`;
-        }
+    stop() {
+        this.pending.forEach(timeoutId => window.clearTimeout(timeoutId));
+        this.pending.clear();
+    }
 
-        noteContent += `\n> **Source:** Auto-processed from monitored folder\n`;
-        noteContent += `> **Original file:** ${file.name}\n`;
+    schedule(notebookId: string) {
+        if (!this.plugin.settings.enableNotebookIndex) return;
+        const existing = this.pending.get(notebookId);
+        if (existing) window.clearTimeout(existing);
+        this.pending.set(notebookId, window.setTimeout(() => {
+            this.pending.delete(notebookId);
+            const notebook = this.plugin.settings.notebooks.find(n => n.id === notebookId);
+            if (notebook) {
+                this.refresh(notebook).catch(error => console.error(`Failed to update the index for ${notebook.name}:`, error));
+            }
+        }, NOTEBOOK_INDEX_DELAY_MS));
+    }
 
-        if (notebook && pageNumber) {
-            noteContent += `> **Notebook:** ${notebook.name} | **Page:** ${pageNumber}\n`;
+    async refreshAll() {
+        if (!this.plugin.settings.enableNotebookIndex) return;
+        for (const notebook of this.plugin.settings.notebooks) {
+            try {
+                await this.refresh(notebook);
+            } catch (error) {
+                console.error(`Failed to update the index for ${notebook.name}:`, error);
+            }
         }
+    }
 
-        noteContent += `\n---\n${resultText}\n---`;
+    // Every page note of a notebook, in page order
+    getPages(notebookId: string): NotebookIndexPage[] {
+        const { metadataCache, vault } = this.plugin.app;
+        const pages: NotebookIndexPage[] = [];
+        for (const file of vault.getMarkdownFiles()) {
+            const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+            if (!frontmatter || String(frontmatter.notebook_id) !== notebookId) continue;
+            const image = frontmatter.image ? metadataCache.getFirstLinkpathDest(String(frontmatter.image), file.path) : null;
+            pages.push({
+                file,
+                page: parseInt(frontmatter.page) || 0,
+                title: frontmatter.title || file.basename,
+                image,
+                status: frontmatter.gemini_status,
+                detectedPage: parseInt(frontmatter.detected_page) || undefined
+            });
+        }
+        return pages.sort((a, b) => a.page - b.page || a.file.stat.ctime - b.file.stat.ctime);
+    }
 
-        // Create the note
-        const newNoteFile = await this.plugin.app.vault.create(noteFilePath, noteContent);
+    // Rewrite the body of the notebook's note below its frontmatter, plus the page count and
+    // missing pages in its properties. The notebook's own fields are left to NotebookStore.
+    async refresh(notebook: Notebook) {
+        const { vault, metadataCache, fileManager } = this.plugin.app;
+        const file = this.plugin.notebookStore.getFile(notebook.id);
+        if (!file) return;
+
+        const pages = this.getPages(notebook.id);
+        const numbered = pages.filter(page => page.page > 0);
+        const highest = numbered.length > 0 ? numbered[numbered.length - 1].page : 0;
+        const present = new Set(numbered.map(page => page.page));
+        const missing: number[] = [];
+        for (let page = 1; page < highest; page++) {
+            if (!present.has(page)) missing.push(page);
+        }
 
-        // Update note properties
-        const imageFile = settings.deleteAfterProcessing ? file : this.plugin.app.vault.getAbstractFileByPath(newImagePath) as TFile;
-        await this.plugin.updateNoteProperties(imageFile, newNoteFile, detectedTags, locationTag, notebook?.id || null, pageNumber);
+        const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+        if (frontmatter?.page_count !== pages.length || JSON.stringify(frontmatter?.missing_pages || []) !== JSON.stringify(missing)) {
+            await fileManager.processFrontMatter(file, (fm) => {
+                fm.page_count = pages.length;
+                fm.missing_pages = missing;
+            });
+        }
+
+        // Only write when something changed, so sync doesn't churn
+        const body = await this.buildIndex(notebook, pages, missing);
+        const content = await vault.read(file);
+        const head = content.match(FRONTMATTER_BLOCK)?.[0] || '';
+        if (content.substring(head.length) !== body) {
+            await vault.process(file, (current) => (current.match(FRONTMATTER_BLOCK)?.[0] || '') + body);
+        }
     }
 
-    async processPdfFile(file: TFile, notebook: Notebook | null, pageNumber: number | null) {
-        // For PDF files, we need to extract pages as images first
-        // This is a simplified version - you might want to use a PDF processing library
-        new Notice(`PDF processing not fully implemented yet for ${file.name}`);
+    private async buildIndex(notebook: Notebook, pages: NotebookIndexPage[], missing: number[]): Promise<string> {
+        const counts = new Map<number, number>();
+        pages.filter(page => page.page > 0).forEach(page => counts.set(page.page, (counts.get(page.page) || 0) + 1));
 
-        // For now, just copy the PDF to the output folder
-        const settings = this.plugin.settings.folderMonitor;
-        const outputFolder = await this.plugin.getAndEnsureFolder(settings.outputFolder);
-        const newPath = `${outputFolder}/${file.name}`;
+        const lines = [`# ${notebook.name}`, ''];
 
-        if (!settings.deleteAfterProcessing) {
-            await this.plugin.app.vault.copy(file, newPath);
+        if (notebook.description) {
+            lines.push(notebook.description, '');
         }
-    }
 
-    async handleProcessedFile(file: TFile) {
-        const settings = this.plugin.settings.folderMonitor;
+        const statusLabel = notebook.status.charAt(0).toUpperCase() + notebook.status.slice(1);
+        const dates = notebook.endDate
+            ? `${window.moment(notebook.startDate).format('YYYY-MM-DD')} to ${window.moment(notebook.endDate).format('YYYY-MM-DD')}`
+            : `Started ${window.moment(notebook.startDate).format('YYYY-MM-DD')}`;
+        lines.push(`**Status:** ${statusLabel} | **${dates}** | **Pages:** ${pages.length}${notebook.totalPages ? ` of ${notebook.totalPages}` : ''} | **Next page:** ${notebook.currentPage}`, '');
 
-        if (settings.deleteAfterProcessing) {
-            await this.plugin.app.vault.delete(file);
-            console.log(`Deleted processed file: ${file.name}`);
+        if (missing.length > 0) {
+            lines.push('> [!warning] Missing pages', `> No notes found for page${missing.length > 1 ? 's' : ''} ${missing.join(', ')}.`, '');
+        }
+
+        if (pages.length === 0) {
+            lines.push('*No pages captured yet.*');
         } else {
-            // Move to processed folder
-            const processedFolder = await this.plugin.getAndEnsureFolder(settings.processedFolder);
-            const newPath = `${processedFolder}/${file.name}`;
+            lines.push('| Page | Image | Note | Summary |', '| --- | --- | --- | --- |');
+            let next = 1;
+            for (const page of pages) {
+                // Gaps in the numbering get a row of their own
+                for (; page.page > 0 && next < page.page; next++) {
+                    lines.push(`| ${next} | | ⚠️ *Missing* | |`);
+                }
+                if (page.page >= next) next = page.page + 1;
 
-            try {
-                await this.plugin.app.fileManager.renameFile(file, newPath);
-                console.log(`Moved processed file to: ${newPath}`);
-            } catch (error) {
-                console.error(`Failed to move file ${file.name}:`, error);
+                let pageLabel = page.page > 0 ? `${page.page}${(counts.get(page.page) || 0) > 1 ? ' ⚠️' : ''}` : '–';
+                if (page.detectedPage) pageLabel += ` (reads ${page.detectedPage})`;
+                const thumbnail = page.image && isImageExtension(page.image.extension) ? `![[${page.image.path}\\|80]]` : '';
+                const link = `[[${page.file.path.replace(/\.md$/, '')}\\|${escapeTableCell(page.title)}]]`;
+                lines.push(`| ${pageLabel} | ${thumbnail} | ${link} | ${escapeTableCell(await this.getSummary(page))} |`);
             }
         }
+
+        lines.push('', '*Generated from the notebook\'s pages and rewritten whenever they change. Edit the properties above to change the notebook itself.*', '');
+        return lines.join('\n');
     }
+
+    // First points of the page's Summary section, or its status while it is still being processed
+    private async getSummary(page: NotebookIndexPage): Promise<string> {
+        if (page.status === 'pending') return '⏳ Waiting to be processed';
+        if (page.status === 'failed') return '❌ Processing failed';
+
+        const content = await this.plugin.app.vault.cachedRead(page.file);
+        const section = content.match(/###\s*Summary\s*\n([\s\S]*?)(?=\n#{1,6}\s|\n---|$)/);
+        if (!section) return '';
+
+        const points = section[1].split('\n')
+            .map(line => line.replace(/^\s*[-*]\s+/, '').trim())
+            .filter(line => line && line.toLowerCase() !== 'none identified.');
+        const summary = points.slice(0, 2).join('; ');
+        return summary.length > INDEX_SUMMARY_LENGTH ? `${summary.substring(0, INDEX_SUMMARY_LENGTH - 1)}…` : summary;
+    }
+}
+
+// The tag every page of a notebook carries, e.g. notebook-work-journal
+function getNotebookTag(name: string): string {
+    return `notebook-${name.toLowerCase().replace(/\s+/g, '-')}`;
+}
+
+// A page note's path with the "Page N" in its filename changed to the new number
+function renumberedPath(path: string, page: number): string {
+    return path.replace(/\bPage \d+\b(?=[^/]*$)/, `Page ${page}`);
 }
 
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
 
 // Main Plugin Class
 export default class GeminiNoteProcessor extends Plugin {
     settings: GeminiNoteProcessorSettings;
     folderMonitor: FolderMonitor;
+    jobQueue: JobQueue;
+    notebookStore: NotebookStore;
+    notebookIndexer: NotebookIndexer;
+    geminiClient: GeminiClient;
+    providers: Record<ModelProviderId, ModelProvider>;
+    private settingsWrite: Promise<void> = Promise.resolve();
+    private pendingSettingsWrite: Promise<void> | null = null;
+    // Ledger entries removed on this device, so merging with data.json doesn't bring them back
+    private forgottenLedgerHashes = new Set<string>();
 
     async onload() {
         await this.loadSettings();
+        this.geminiClient = new GeminiClient(this);
+        this.providers = {
+            'gemini': new GeminiProvider(this),
+            'openai-compatible': new OpenAICompatibleProvider(this)
+        };
         this.addSettingTab(new GeminiSettingTab(this.app, this));
 
         // Register the chat view
@@ -815,6 +4095,11 @@ export default class GeminiNoteProcessor extends Plugin {
             (leaf) => new GeminiChatView(leaf, this)
         );
 
+        this.registerView(
+            FOLDER_MONITOR_VIEW,
+            (leaf) => new FolderMonitorView(leaf, this)
+        );
+
         this.addRibbonIcon('camera', 'Create note from camera or file', () => {
             this.createNoteFromImageCapture();
         });
@@ -832,7 +4117,7 @@ export default class GeminiNoteProcessor extends Plugin {
             name: 'Process current image with Gemini',
             checkCallback: (checking: boolean) => {
                 const file = this.app.workspace.getActiveFile();
-                if (file && file.extension.match(/^(png|jpg|jpeg|gif)$/i)) {
+                if (file && isImageExtension(file.extension)) {
                     if (!checking) {
                         this.processExistingImage(file);
                     }
@@ -842,6 +4127,48 @@ export default class GeminiNoteProcessor extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'rebuild-notebook-indexes',
+            name: 'Rebuild notebook index notes',
+            callback: async () => {
+                if (!this.settings.enableNotebookIndex) {
+                    new Notice('Notebook index notes are turned off in settings');
+                    return;
+                }
+                await this.notebookIndexer.refreshAll();
+                new Notice(`Updated ${this.settings.notebooks.length} notebook index note${this.settings.notebooks.length === 1 ? '' : 's'}`);
+            }
+        });
+
+        this.addCommand({
+            id: 'audit-notebook',
+            name: 'Audit and renumber notebook pages',
+            callback: () => this.showNotebookAuditModal()
+        });
+
+        this.addCommand({
+            id: 'move-notebook-pages',
+            name: 'Move pages to another notebook',
+            callback: () => {
+                const file = this.app.workspace.getActiveFile();
+                const notebookId = file ? this.app.metadataCache.getFileCache(file)?.frontmatter?.notebook_id : null;
+                const source = this.settings.notebooks.find(n => n.id === notebookId);
+                this.showMovePagesModal(source, source && file ? [file] : []);
+            }
+        });
+
+        this.addCommand({
+            id: 'merge-notebooks',
+            name: 'Merge two notebooks',
+            callback: () => this.showMergeNotebooksModal()
+        });
+
+        this.addCommand({
+            id: 'split-notebook',
+            name: 'Split a notebook at a page',
+            callback: () => this.showSplitNotebookModal()
+        });
+
         // Add command for batch processing
         this.addCommand({
             id: 'batch-process-images',
@@ -895,7 +4222,7 @@ export default class GeminiNoteProcessor extends Plugin {
 
         this.registerEvent(
             this.app.workspace.on('file-menu', (menu, file) => {
-                if (!(file instanceof TFile) || !file.path.match(/\.(png|jpg|jpeg|gif)$/i)) {
+                if (!(file instanceof TFile) || !isImageExtension(file.extension)) {
                     return;
                 }
                 menu.addItem((item) => {
@@ -906,10 +4233,43 @@ export default class GeminiNoteProcessor extends Plugin {
                 });
             })
         );
+
+        // Page notes can be moved to another notebook from the file explorer, one or several at a time
+        const addMoveToNotebookItem = (menu: Menu, files: TAbstractFile[]) => {
+            const pages = files.filter((f): f is TFile => f instanceof TFile && !!this.app.metadataCache.getFileCache(f)?.frontmatter?.notebook_id);
+            if (pages.length === 0) return;
+            const notebookId = this.app.metadataCache.getFileCache(pages[0])?.frontmatter?.notebook_id;
+            const source = this.settings.notebooks.find(n => n.id === notebookId);
+            if (!source) return;
+            menu.addItem((item) => {
+                item.setTitle("Move to another notebook").setIcon("book")
+                    .onClick(() => this.showMovePagesModal(source, pages));
+            });
+        };
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => addMoveToNotebookItem(menu, [file])));
+        this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => addMoveToNotebookItem(menu, files)));
         
         // Initialize folder monitor
+        await this.registerDevice();
         this.folderMonitor = new FolderMonitor(this);
 
+        // Notebooks are read from their notes and jobs left over from the last session are resumed
+        // once the vault is indexed; jobs need the notebooks to be loaded first
+        this.jobQueue = new JobQueue(this);
+        this.notebookStore = new NotebookStore(this);
+        this.notebookIndexer = new NotebookIndexer(this);
+        this.app.workspace.onLayoutReady(async () => {
+            try {
+                await this.notebookStore.start();
+            } catch (error) {
+                console.error('Failed to load notebooks:', error);
+            }
+            this.jobQueue.start();
+            this.notebookIndexer.start();
+        });
+        this.registerDomEvent(window, 'online', () => this.jobQueue.resumeWaiting());
+        this.registerInterval(window.setInterval(() => this.jobQueue.resumeWaiting(), OFFLINE_RETRY_MS));
+
         // Start monitor if enabled
         if (this.settings.folderMonitor.enabled) {
             this.folderMonitor.start();
@@ -928,6 +4288,31 @@ export default class GeminiNoteProcessor extends Plugin {
                 }
             }
         });
+
+        this.addCommand({
+            id: 'open-folder-monitor-dashboard',
+            name: 'Open folder monitor dashboard',
+            callback: () => this.activateFolderMonitorView()
+        });
+
+        this.addCommand({
+            id: 'show-processing-queue',
+            name: 'Show processing queue',
+            callback: () => this.showJobQueueModal()
+        });
+
+        this.addCommand({
+            id: 'requeue-failed-monitored-files',
+            name: 'Re-queue failed monitored files',
+            callback: async () => {
+                if (this.settings.quarantinedFiles.length === 0) {
+                    new Notice('No failed files to re-queue');
+                    return;
+                }
+                const count = await this.folderMonitor.requeueQuarantined();
+                new Notice(`Re-queued ${count} failed file${count === 1 ? '' : 's'}`);
+            }
+        });
     }
 
     onunload() { 
@@ -935,6 +4320,773 @@ export default class GeminiNoteProcessor extends Plugin {
         if (this.folderMonitor) {
             this.folderMonitor.stop();
         }
+        if (this.notebookIndexer) {
+            this.notebookIndexer.stop();
+        }
+    }
+
+    showJobQueueModal() {
+        const modal = new Modal(this.app);
+        modal.titleEl.setText('Processing Queue');
+
+        const statusIcons: Record<ProcessingJobStatus, string> = {
+            queued: '⏳',
+            running: '⚙️',
+            waiting: '📴',
+            done: '✅',
+            failed: '❌',
+            cancelled: '🚫'
+        };
+
+        const summary = modal.contentEl.createEl('p', { cls: 'setting-item-description' });
+        const list = modal.contentEl.createDiv();
+        list.style.cssText = 'max-height: 60vh; overflow-y: auto;';
+
+        const render = () => {
+            const jobs = this.jobQueue.getJobs();
+            const active = jobs.filter(isActiveJob);
+            summary.setText(`${active.length} active job${active.length === 1 ? '' : 's'}, running up to ${this.settings.jobConcurrency} at a time.`);
+            list.empty();
+
+            if (jobs.length === 0) {
+                list.createEl('p', { text: 'Nothing has been queued yet.', cls: 'setting-item-description' });
+                return;
+            }
+
+            // Active jobs first, then the most recently finished
+            const ordered = [...active, ...jobs.filter(job => !active.includes(job)).reverse()];
+            for (const job of ordered) {
+                const row = list.createDiv();
+                row.style.cssText = 'display: flex; align-items: center; gap: 8px; padding: 6px 0; border-bottom: 1px solid var(--background-modifier-border);';
+
+                const info = row.createDiv();
+                info.style.cssText = 'flex: 1; min-width: 0;';
+                info.createDiv({ text: `${statusIcons[job.status]} ${job.label}` });
+                const time = job.finishedAt || job.startedAt || job.createdAt;
+                const detail = job.error || `${job.status} ${window.moment(time).fromNow()}`;
+                const detailEl = info.createDiv({ text: detail });
+                detailEl.style.cssText = `font-size: 0.85em; color: ${job.status === 'failed' ? 'var(--text-error)' : 'var(--text-muted)'};`;
+
+                if (job.status === 'queued' || job.status === 'waiting') {
+                    const cancelBtn = row.createEl('button', { text: 'Cancel' });
+                    cancelBtn.onclick = () => this.jobQueue.cancel(job.id);
+                }
+            }
+        };
+
+        const buttonContainer = modal.contentEl.createDiv();
+        buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: flex-end; margin-top: 15px;';
+        const cancelAllBtn = buttonContainer.createEl('button', { text: 'Cancel All Queued' });
+        cancelAllBtn.onclick = () => {
+            const queued = this.jobQueue.getJobs().filter(job => job.status === 'queued' || job.status === 'waiting');
+            if (queued.length === 0 || !confirm(`Cancel ${queued.length} queued job${queued.length === 1 ? '' : 's'}?`)) return;
+            queued.forEach(job => this.jobQueue.cancel(job.id));
+        };
+        const clearBtn = buttonContainer.createEl('button', { text: 'Clear Finished' });
+        clearBtn.onclick = () => this.jobQueue.clearFinished();
+
+        const unsubscribe = this.jobQueue.onChange(render);
+        modal.onClose = () => unsubscribe();
+
+        render();
+        modal.open();
+    }
+
+    // Check a notebook's pages for gaps, pages sharing a number, and pages past the notebook's last page
+    auditNotebook(notebook: Notebook): NotebookAudit {
+        const pages = this.notebookIndexer.getPages(notebook.id);
+        const numbered = pages.filter(page => page.page > 0);
+        const highest = numbered.length > 0 ? numbered[numbered.length - 1].page : 0;
+
+        const byPage = new Map<number, NotebookIndexPage[]>();
+        numbered.forEach(page => byPage.set(page.page, [...(byPage.get(page.page) || []), page]));
+
+        const missing: number[] = [];
+        for (let page = 1; page < highest; page++) {
+            if (!byPage.has(page)) missing.push(page);
+        }
+
+        return {
+            pages,
+            missing,
+            duplicates: [...byPage.entries()].filter(([, notes]) => notes.length > 1).map(([page, notes]) => ({ page, notes })),
+            beyondTotal: notebook.totalPages ? numbered.filter(page => page.page > (notebook.totalPages || 0)) : [],
+            unnumbered: pages.filter(page => page.page <= 0),
+            mismatched: pages.filter(page => page.detectedPage)
+        };
+    }
+
+    // Number every page in order from startAt, keeping the current order (pages sharing a number by creation
+    // time, unnumbered pages last). Filenames that contain "Page N" get the new number too.
+    // With keepGaps, pages keep their numbers and missing pages stay missing; only the second and later pages
+    // sharing a number, pages past the notebook's last page and unnumbered pages get new numbers, taken after
+    // the last page in range or, once the notebook is full, from the free numbers nearest its end.
+    planRenumbering(notebook: Notebook, startAt: number, keepGaps = false): RenumberStep[] {
+        const pages = this.notebookIndexer.getPages(notebook.id);
+        const ordered = [...pages.filter(page => page.page > 0), ...pages.filter(page => page.page <= 0)];
+        const reserved = new Set<string>();
+
+        let numbers = ordered.map((_, i) => startAt + i);
+        if (keepGaps) {
+            const limit = notebook.totalPages || Infinity;
+            const kept = new Set<number>();
+            const moving = ordered.filter(page => {
+                if (page.page <= 0 || page.page > limit || kept.has(page.page)) return true;
+                kept.add(page.page);
+                return false;
+            });
+
+            const highest = Math.max(0, ...kept);
+            const free: number[] = [];
+            for (let n = highest + 1; free.length < moving.length && n <= limit; n++) free.push(n);
+            for (let n = highest - 1; free.length < moving.length && n > 0; n--) {
+                if (!kept.has(n)) free.push(n);
+            }
+            for (let n = limit + 1; free.length < moving.length; n++) free.push(n);
+            numbers = ordered.map(page => moving.includes(page) ? free[moving.indexOf(page)] : page.page);
+        }
+
+        return ordered.map((page, i) => {
+            const newPage = numbers[i];
+            let newPath = renumberedPath(page.file.path, newPage);
+            // Two notes that would end up with the same name get a counter
+            for (let n = 2; newPath !== page.file.path && reserved.has(newPath); n++) {
+                newPath = renumberedPath(page.file.path, newPage).replace(/\.md$/, ` ${n}.md`);
+            }
+            reserved.add(newPath);
+            return { page, newPage, newPath };
+        });
+    }
+
+    // Apply a renumbering plan as one batch: page properties, the page line in each note, filenames
+    // and the notebook's page counter. Anything already changed is put back if a step fails.
+    // wholeNotebook: the steps cover every page, so the counter follows the last one; otherwise it only moves forward.
+    async applyRenumbering(notebook: Notebook, steps: RenumberStep[], wholeNotebook = true) {
+        const { vault, fileManager } = this.app;
+        const changing = steps.filter(step => step.newPage !== step.page.page || step.newPath !== step.page.file.path);
+        const renames = changing.filter(step => step.newPath !== step.page.file.path);
+
+        // Refuse before touching anything if a new name belongs to a note outside the batch
+        const moving = new Set(renames.map(step => step.page.file.path));
+        const blocked = renames.find(step => vault.getAbstractFileByPath(step.newPath) && !moving.has(step.newPath));
+        if (blocked) {
+            throw new Error(`Can't rename ${blocked.page.file.name}: ${blocked.newPath} already exists.`);
+        }
+
+        const transaction = new ProcessingTransaction(this.app);
+        try {
+            for (const step of changing) {
+                const file = step.page.file;
+                const oldPage = step.page.page;
+                if (step.newPage === oldPage) continue;
+
+                let previous: { page: unknown; detected: unknown } = { page: undefined, detected: undefined };
+                await fileManager.processFrontMatter(file, (frontmatter) => {
+                    previous = { page: frontmatter.page, detected: frontmatter.detected_page };
+                    frontmatter.page = step.newPage;
+                    // The number written on the page now matches
+                    if (parseInt(frontmatter.detected_page) === step.newPage) delete frontmatter.detected_page;
+                });
+                transaction.onRollback(`restored page ${oldPage} on ${file.basename}`, () => fileManager.processFrontMatter(file, (frontmatter) => {
+                    if (previous.page === undefined) delete frontmatter.page; else frontmatter.page = previous.page;
+                    if (previous.detected !== undefined) frontmatter.detected_page = previous.detected;
+                }));
+
+                // Only the notebook line under the image, whatever number it shows, never text elsewhere in the note
+                let previousLine = null as string | null;
+                let newLine = '';
+                await vault.process(file, (content) => content.replace(/(> \*\*Notebook:\*\* .*? \| \*\*Page:\*\* )\d+/, (line, prefix: string) => {
+                    previousLine = line;
+                    newLine = `${prefix}${step.newPage}`;
+                    return newLine;
+                }));
+                if (previousLine !== null) {
+                    const line: string = previousLine;
+                    transaction.onRollback(`restored the page line in ${file.basename}`, async () => {
+                        await vault.process(file, (content) => content.replace(newLine, line));
+                    });
+                }
+            }
+
+            // Rename through temporary names first, so two pages can swap numbers
+            for (const step of renames) {
+                const file = step.page.file;
+                const original = file.path;
+                await fileManager.renameFile(file, original.replace(/\.md$/, ' (renumbering).md'));
+                transaction.onRollback(`renamed ${file.basename} back`, () => fileManager.renameFile(file, original));
+            }
+            for (const step of renames) {
+                await fileManager.renameFile(step.page.file, step.newPath);
+            }
+
+            const previousPage = notebook.currentPage;
+            const nextPage = Math.max(...steps.map(step => step.newPage)) + 1;
+            if (wholeNotebook || (this.settings.autoIncrementPage && nextPage > previousPage)) {
+                notebook.currentPage = nextPage;
+                transaction.onRollback(`set the page counter back to ${previousPage}`, async () => {
+                    notebook.currentPage = previousPage;
+                    await this.saveSettings();
+                });
+                await this.saveSettings();
+            }
+        } catch (error) {
+            console.error(`Renumbering ${notebook.name} failed:`, error);
+            throw new ProcessingFailedError(error, await transaction.rollback());
+        }
+    }
+
+    showNotebookAuditModal(initial?: Notebook) {
+        const notebooks = this.settings.notebooks;
+        if (notebooks.length === 0) {
+            new Notice('No notebooks to audit yet');
+            return;
+        }
+
+        const modal = new Modal(this.app);
+        modal.titleEl.setText('Audit Notebook');
+        let notebook = initial || notebooks.find(n => n.id === this.settings.currentNotebookId) || notebooks[0];
+
+        const notebookSelect = modal.contentEl.createEl('select', { cls: 'dropdown' });
+        notebookSelect.style.cssText = 'width: 100%; margin-bottom: 10px;';
+        notebooks.forEach(n => notebookSelect.createEl('option', { value: n.id, text: n.name }));
+        notebookSelect.value = notebook.id;
+
+        const results = modal.contentEl.createDiv();
+        results.style.cssText = 'max-height: 60vh; overflow-y: auto;';
+
+        const noteLink = (parent: HTMLElement, page: NotebookIndexPage) => {
+            const link = parent.createEl('a', { text: page.title, href: '#' });
+            link.onclick = (e) => {
+                e.preventDefault();
+                this.app.workspace.openLinkText(page.file.path, '', true);
+            };
+        };
+
+        const addSection = (title: string, items: NotebookIndexPage[], describe: (page: NotebookIndexPage) => string) => {
+            if (items.length === 0) return;
+            results.createEl('h4', { text: title });
+            const list = results.createEl('ul');
+            for (const page of items) {
+                const item = list.createEl('li');
+                item.appendText(`${describe(page)}: `);
+                noteLink(item, page);
+            }
+        };
+
+        const renderAudit = () => {
+            results.empty();
+            const audit = this.auditNotebook(notebook);
+            const highest = Math.max(0, ...audit.pages.map(page => page.page));
+            results.createEl('p', {
+                text: `${audit.pages.length} page note${audit.pages.length === 1 ? '' : 's'}, highest page ${highest}${notebook.totalPages ? ` of ${notebook.totalPages}` : ''}, next page ${notebook.currentPage}.`,
+                cls: 'setting-item-description'
+            });
+
+            const clean = audit.missing.length === 0 && audit.duplicates.length === 0 && audit.beyondTotal.length === 0
+                && audit.unnumbered.length === 0 && audit.mismatched.length === 0;
+            if (clean) {
+                results.createEl('p', { text: '✅ No gaps, duplicates or out-of-range pages found.' });
+            }
+
+            if (audit.missing.length > 0) {
+                results.createEl('h4', { text: `⚠️ Missing pages (${audit.missing.length})` });
+                results.createEl('p', { text: audit.missing.join(', ') });
+            }
+            addSection(`⚠️ Pages used more than once (${audit.duplicates.length})`, audit.duplicates.flatMap(d => d.notes), page => `Page ${page.page}`);
+            addSection(`⚠️ Pages beyond page ${notebook.totalPages}`, audit.beyondTotal, page => `Page ${page.page}`);
+            addSection('Pages without a number', audit.unnumbered, () => 'No page');
+            addSection('Numbered differently on the page', audit.mismatched, page => `Page ${page.page} reads ${page.detectedPage}`);
+
+            renderRenumber();
+        };
+
+        const renderRenumber = () => {
+            results.createEl('h4', { text: 'Renumber Pages' });
+            results.createEl('p', {
+                text: 'Fix duplicate, out-of-range and unnumbered pages while keeping missing pages as gaps, or number every page in its current order. Page properties, the page line in each note, filenames containing "Page N" and the notebook\'s next page are all updated together.',
+                cls: 'setting-item-description'
+            });
+
+            let startAt = 1;
+            let keepGaps = true;
+            const controls = results.createDiv();
+            controls.style.cssText = 'display: flex; gap: 10px; align-items: center; flex-wrap: wrap;';
+            const modeSelect = controls.createEl('select', { cls: 'dropdown' });
+            modeSelect.createEl('option', { value: 'conflicts', text: 'Only fix conflicts (keep gaps)' });
+            modeSelect.createEl('option', { value: 'all', text: 'Number every page in order' });
+            const startLabel = controls.createEl('span', { text: 'Start at page' });
+            const startInput = controls.createEl('input', { type: 'number', value: '1' });
+            startInput.style.cssText = 'width: 70px;';
+            startInput.min = '1';
+            startInput.onchange = () => { startAt = Math.max(1, parseInt(startInput.value) || 1); };
+            const showStart = () => {
+                startLabel.toggle(!keepGaps);
+                startInput.toggle(!keepGaps);
+            };
+            modeSelect.onchange = () => {
+                keepGaps = modeSelect.value === 'conflicts';
+                showStart();
+            };
+            showStart();
+            const previewBtn = controls.createEl('button', { text: 'Preview' });
+            const preview = results.createDiv();
+
+            previewBtn.onclick = () => {
+                preview.empty();
+                const plannedStart = startAt;
+                const plannedKeepGaps = keepGaps;
+                const steps = this.planRenumbering(notebook, plannedStart, plannedKeepGaps);
+                const changing = steps.filter(step => step.newPage !== step.page.page || step.newPath !== step.page.file.path);
+                if (changing.length === 0) {
+                    preview.createEl('p', { text: plannedKeepGaps ? 'No pages need a new number.' : 'Every page already has this number.', cls: 'setting-item-description' });
+                    return;
+                }
+
+                const table = preview.createEl('table');
+                table.style.cssText = 'width: 100%; margin-top: 10px; font-size: 0.9em;';
+                const header = table.createEl('tr');
+                ['Page', 'New', 'Note'].forEach(text => header.createEl('th', { text }));
+                for (const step of changing) {
+                    const row = table.createEl('tr');
+                    row.createEl('td', { text: step.page.page > 0 ? String(step.page.page) : '–' });
+                    row.createEl('td', { text: String(step.newPage) });
+                    const cell = row.createEl('td');
+                    cell.createDiv({ text: step.page.file.basename });
+                    if (step.newPath !== step.page.file.path) {
+                        cell.createDiv({ text: `→ ${step.newPath.split('/').pop()?.replace(/\.md$/, '')}` }).style.cssText = 'color: var(--text-muted);';
+                    }
+                }
+
+                const nextPage = Math.max(...steps.map(step => step.newPage)) + 1;
+                preview.createEl('p', {
+                    text: `${changing.length} note${changing.length === 1 ? '' : 's'} will change. Next page: ${notebook.currentPage} → ${nextPage}.`,
+                    cls: 'setting-item-description'
+                });
+
+                const applyBtn = preview.createEl('button', { text: 'Apply Renumbering', cls: 'mod-warning' });
+                applyBtn.onclick = async () => {
+                    if (!confirm(`Renumber ${changing.length} page${changing.length === 1 ? '' : 's'} of ${notebook.name}?`)) return;
+                    applyBtn.disabled = true;
+
+                    // Apply exactly what was previewed, and only if the pages haven't changed since
+                    const current = this.planRenumbering(notebook, plannedStart, plannedKeepGaps);
+                    const unchanged = current.length === steps.length && current.every((step, i) => step.page.file === steps[i].page.file
+                        && step.page.page === steps[i].page.page && step.newPage === steps[i].newPage && step.newPath === steps[i].newPath);
+                    if (!unchanged) {
+                        new Notice('The notebook\'s pages changed since the preview. Check the new preview before applying.');
+                        previewBtn.click();
+                        return;
+                    }
+
+                    try {
+                        await this.applyRenumbering(notebook, steps);
+                        new Notice(`✅ Renumbered ${changing.length} page${changing.length === 1 ? '' : 's'} of ${notebook.name}`);
+                    } catch (error) {
+                        new Notice(`❌ Renumbering failed: ${error.message}`, 0);
+                    }
+                    renderAudit();
+                };
+            };
+        };
+
+        notebookSelect.onchange = () => {
+            notebook = notebooks.find(n => n.id === notebookSelect.value) || notebook;
+            renderAudit();
+        };
+
+        renderAudit();
+        modal.open();
+    }
+
+    // Move page notes into a notebook as one batch: notebook properties and tag, page number, the
+    // notebook line in the note, and its folder when notes are grouped by notebook. Pages are numbered
+    // from startAt in their current order, or keep their numbers when startAt is null.
+    async movePagesToNotebook(pages: NotebookIndexPage[], target: Notebook, startAt: number | null) {
+        const { vault, fileManager, metadataCache } = this.app;
+        const transaction = new ProcessingTransaction(this.app);
+        const reserved = new Set<string>();
+        const targetTag = getNotebookTag(target.name);
+
+        try {
+            for (const [i, page] of pages.entries()) {
+                const file = page.file;
+                const newPage = startAt !== null ? startAt + i : page.page;
+                const created = metadataCache.getFileCache(file)?.frontmatter?.created;
+
+                let previous: Record<string, unknown> = {};
+                await fileManager.processFrontMatter(file, (frontmatter) => {
+                    previous = {
+                        notebook: frontmatter.notebook,
+                        notebook_id: frontmatter.notebook_id,
+                        page: frontmatter.page,
+                        detected_page: frontmatter.detected_page,
+                        tags: Array.isArray(frontmatter.tags) ? [...frontmatter.tags] : frontmatter.tags
+                    };
+
+                    const oldTag = frontmatter.notebook ? getNotebookTag(String(frontmatter.notebook)) : null;
+                    const tags: string[] = (Array.isArray(frontmatter.tags) ? frontmatter.tags : frontmatter.tags ? [frontmatter.tags] : [])
+                        .filter((tag: unknown) => String(tag).replace(/^#/, '') !== oldTag);
+                    if (!tags.includes(targetTag)) tags.push(targetTag);
+                    frontmatter.tags = tags;
+
+                    frontmatter.notebook = target.name;
+                    frontmatter.notebook_id = target.id;
+                    if (newPage > 0) frontmatter.page = newPage;
+                    if (parseInt(frontmatter.detected_page) === newPage) delete frontmatter.detected_page;
+                });
+                transaction.onRollback(`restored the notebook properties of ${file.basename}`, () => fileManager.processFrontMatter(file, (frontmatter) => {
+                    for (const [key, value] of Object.entries(previous)) {
+                        if (value === undefined) delete frontmatter[key]; else frontmatter[key] = value;
+                    }
+                }));
+
+                let previousLine = null as string | null;
+                const newLine = `> **Notebook:** ${target.name} | **Page:** ${newPage}`;
+                await vault.process(file, (content) => content.replace(/> \*\*Notebook:\*\* .*? \| \*\*Page:\*\* \d+/, (line) => {
+                    previousLine = line;
+                    return newLine;
+                }));
+                if (previousLine !== null) {
+                    const line: string = previousLine;
+                    transaction.onRollback(`restored the notebook line in ${file.basename}`, async () => {
+                        await vault.process(file, (content) => content.replace(newLine, line));
+                    });
+                }
+
+                // Relocate into the target notebook's folder, dated by when the page was captured
+                const folder = this.settings.groupByNotebook
+                    ? await this.getAndEnsureFolder(await this.getNotebookFolder(target.id, created || file.stat.ctime))
+                    : file.parent && !file.parent.isRoot() ? file.parent.path : '';
+                const name = newPage > 0 ? file.name.replace(/\bPage \d+\b/, `Page ${newPage}`) : file.name;
+                let newPath = folder ? `${folder}/${name}` : name;
+                for (let n = 2; newPath !== file.path && (vault.getAbstractFileByPath(newPath) || reserved.has(newPath)); n++) {
+                    newPath = (folder ? `${folder}/${name}` : name).replace(/\.md$/, ` ${n}.md`);
+                }
+                reserved.add(newPath);
+                if (newPath !== file.path) {
+                    const original = file.path;
+                    await fileManager.renameFile(file, newPath);
+                    transaction.onRollback(`moved ${file.basename} back`, () => fileManager.renameFile(file, original));
+                }
+            }
+
+            // The target notebook carries on after the pages it received
+            const highest = Math.max(0, ...pages.map((page, i) => startAt !== null ? startAt + i : page.page));
+            if (highest >= target.currentPage) {
+                const previousPage = target.currentPage;
+                target.currentPage = highest + 1;
+                transaction.onRollback(`set ${target.name}'s page counter back to ${previousPage}`, async () => {
+                    target.currentPage = previousPage;
+                    await this.saveSettings();
+                });
+                await this.saveSettings();
+            }
+        } catch (error) {
+            console.error(`Moving pages to ${target.name} failed:`, error);
+            throw new ProcessingFailedError(error, await transaction.rollback());
+        }
+    }
+
+    // Remove the notebook properties and tag from a notebook's pages, so none point at a deleted notebook
+    async detachPages(notebook: Notebook) {
+        const tag = getNotebookTag(notebook.name);
+        for (const page of this.notebookIndexer.getPages(notebook.id)) {
+            // Keep where the page came from, so it can still be found and put back by hand
+            await this.app.fileManager.processFrontMatter(page.file, (frontmatter) => {
+                frontmatter.former_notebook = notebook.name;
+                if (frontmatter.page !== undefined) frontmatter.former_page = frontmatter.page;
+                delete frontmatter.notebook;
+                delete frontmatter.notebook_id;
+                delete frontmatter.page;
+                if (Array.isArray(frontmatter.tags)) {
+                    frontmatter.tags = frontmatter.tags.filter((t: unknown) => String(t).replace(/^#/, '') !== tag);
+                }
+            });
+            await this.app.vault.process(page.file, (content) => content.replace(/> \*\*Notebook:\*\* (.*?) \| \*\*Page:\*\* (\d+)/, '> **Former notebook:** $1 | **Page:** $2'));
+        }
+    }
+
+    showMovePagesModal(source?: Notebook, preselected: TFile[] = []) {
+        const notebooks = this.settings.notebooks;
+        if (notebooks.length < 2) {
+            new Notice('You need at least two notebooks to move pages between');
+            return;
+        }
+
+        const modal = new Modal(this.app);
+        modal.titleEl.setText('Move Pages to Another Notebook');
+        let from = source || notebooks.find(n => n.id === this.settings.currentNotebookId) || notebooks[0];
+        let to = notebooks.find(n => n.id !== from.id) as Notebook;
+        let keepNumbers = false;
+        const selected = new Set(preselected.map(file => file.path));
+
+        new Setting(modal.contentEl)
+            .setName('From')
+            .addDropdown(dropdown => {
+                notebooks.forEach(n => dropdown.addOption(n.id, n.name));
+                dropdown.setValue(from.id).onChange((value) => {
+                    from = notebooks.find(n => n.id === value) || from;
+                    selected.clear();
+                    renderPages();
+                });
+            });
+
+        const pageList = modal.contentEl.createDiv();
+        pageList.style.cssText = 'max-height: 40vh; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 4px; padding: 5px 10px;';
+        const renderPages = () => {
+            pageList.empty();
+            const pages = this.notebookIndexer.getPages(from.id);
+            if (pages.length === 0) {
+                pageList.createEl('p', { text: 'This notebook has no pages.', cls: 'setting-item-description' });
+            }
+            for (const page of pages) {
+                const row = pageList.createEl('label');
+                row.style.cssText = 'display: flex; gap: 8px; align-items: center; padding: 4px 0;';
+                const checkbox = row.createEl('input', { type: 'checkbox' });
+                checkbox.checked = selected.has(page.file.path);
+                checkbox.onchange = () => {
+                    if (checkbox.checked) selected.add(page.file.path); else selected.delete(page.file.path);
+                };
+                row.createSpan({ text: `${page.page > 0 ? `Page ${page.page}` : 'No page'}: ${page.title}` });
+            }
+        };
+        renderPages();
+
+        new Setting(modal.contentEl)
+            .setName('To')
+            .addDropdown(dropdown => {
+                notebooks.forEach(n => dropdown.addOption(n.id, n.name));
+                dropdown.setValue(to.id).onChange((value) => { to = notebooks.find(n => n.id === value) || to; });
+            });
+        new Setting(modal.contentEl)
+            .setName('Keep Page Numbers').setDesc('Otherwise the pages are numbered on from the target notebook\'s next page, in their current order.')
+            .addToggle(toggle => toggle.setValue(keepNumbers).onChange((value) => { keepNumbers = value; }));
+
+        const buttonContainer = modal.contentEl.createDiv();
+        buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: flex-end; margin-top: 15px;';
+        const moveBtn = buttonContainer.createEl('button', { text: 'Move Pages', cls: 'mod-cta' });
+        moveBtn.onclick = async () => {
+            const pages = this.notebookIndexer.getPages(from.id).filter(page => selected.has(page.file.path));
+            if (pages.length === 0) {
+                new Notice('Select at least one page to move');
+                return;
+            }
+            if (to.id === from.id) {
+                new Notice('Choose a different notebook to move the pages to');
+                return;
+            }
+            if (!confirm(`Move ${pages.length} page${pages.length === 1 ? '' : 's'} from ${from.name} to ${to.name}?`)) return;
+
+            moveBtn.disabled = true;
+            try {
+                await this.movePagesToNotebook(pages, to, keepNumbers ? null : to.currentPage);
+                new Notice(`✅ Moved ${pages.length} page${pages.length === 1 ? '' : 's'} to ${to.name}`);
+                modal.close();
+            } catch (error) {
+                new Notice(`❌ Moving pages failed: ${error.message}`, 0);
+                moveBtn.disabled = false;
+            }
+        };
+
+        modal.open();
+    }
+
+    showMergeNotebooksModal(source?: Notebook) {
+        const notebooks = this.settings.notebooks;
+        if (notebooks.length < 2) {
+            new Notice('You need at least two notebooks to merge');
+            return;
+        }
+
+        const modal = new Modal(this.app);
+        modal.titleEl.setText('Merge Notebooks');
+        let from = source || notebooks[0];
+        let into = notebooks.find(n => n.id !== from.id) as Notebook;
+        let keepNumbers = false;
+        let deleteAfter = true;
+
+        new Setting(modal.contentEl)
+            .setName('Merge').setDesc('The notebook whose pages are moved')
+            .addDropdown(dropdown => {
+                notebooks.forEach(n => dropdown.addOption(n.id, n.name));
+                dropdown.setValue(from.id).onChange((value) => { from = notebooks.find(n => n.id === value) || from; });
+            });
+        new Setting(modal.contentEl)
+            .setName('Into').setDesc('The notebook that receives them')
+            .addDropdown(dropdown => {
+                notebooks.forEach(n => dropdown.addOption(n.id, n.name));
+                dropdown.setValue(into.id).onChange((value) => { into = notebooks.find(n => n.id === value) || into; });
+            });
+        new Setting(modal.contentEl)
+            .setName('Keep Page Numbers').setDesc('Otherwise the pages are added after the last page of the notebook they are merged into.')
+            .addToggle(toggle => toggle.setValue(keepNumbers).onChange((value) => { keepNumbers = value; }));
+        new Setting(modal.contentEl)
+            .setName('Delete the Merged Notebook').setDesc('Move its notebook note to the trash once its pages have moved.')
+            .addToggle(toggle => toggle.setValue(deleteAfter).onChange((value) => { deleteAfter = value; }));
+
+        const buttonContainer = modal.contentEl.createDiv();
+        buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: flex-end; margin-top: 15px;';
+        const mergeBtn = buttonContainer.createEl('button', { text: 'Merge', cls: 'mod-warning' });
+        mergeBtn.onclick = async () => {
+            if (from.id === into.id) {
+                new Notice('Choose two different notebooks');
+                return;
+            }
+            const pages = this.notebookIndexer.getPages(from.id);
+
+            // Keeping numbers can put two pages on the same number, or past the end of the notebook
+            let warning = '';
+            if (keepNumbers) {
+                const taken = new Set(this.notebookIndexer.getPages(into.id).map(page => page.page).filter(page => page > 0));
+                const clashes = [...new Set(pages.map(page => page.page).filter(page => taken.has(page)))];
+                const beyond = into.totalPages ? pages.filter(page => page.page > (into.totalPages || 0)).length : 0;
+                if (clashes.length > 0) warning += `\n\n⚠️ ${into.name} already has page${clashes.length === 1 ? '' : 's'} ${clashes.join(', ')}, so ${clashes.length === 1 ? 'that page' : 'those pages'} will be used twice.`;
+                if (beyond > 0) warning += `\n\n⚠️ ${beyond} page${beyond === 1 ? '' : 's'} will be past ${into.name}'s last page (${into.totalPages}).`;
+                if (warning) warning += '\n\nThe notebook audit opens afterwards so you can fix them.';
+            }
+            if (!confirm(`Move all ${pages.length} page${pages.length === 1 ? '' : 's'} of ${from.name} into ${into.name}${deleteAfter ? ` and delete ${from.name}` : ''}?${warning}`)) return;
+
+            mergeBtn.disabled = true;
+            try {
+                if (pages.length > 0) {
+                    await this.movePagesToNotebook(pages, into, keepNumbers ? null : into.currentPage);
+                }
+                if (deleteAfter) {
+                    await this.notebookStore.delete(from);
+                    await this.saveSettings();
+                }
+                new Notice(`✅ Merged ${from.name} into ${into.name}`);
+                modal.close();
+                if (warning) {
+                    // Audit once the moved pages' properties have been re-read
+                    const ref = this.app.metadataCache.on('resolved', () => {
+                        this.app.metadataCache.offref(ref);
+                        this.showNotebookAuditModal(into);
+                    });
+                }
+            } catch (error) {
+                new Notice(`❌ Merge failed: ${error.message}`, 0);
+                mergeBtn.disabled = false;
+            }
+        };
+
+        modal.open();
+    }
+
+    showSplitNotebookModal(source?: Notebook) {
+        const notebooks = this.settings.notebooks;
+        if (notebooks.length === 0) {
+            new Notice('No notebooks to split yet');
+            return;
+        }
+
+        const modal = new Modal(this.app);
+        modal.titleEl.setText('Split Notebook');
+        let notebook = source || notebooks.find(n => n.id === this.settings.currentNotebookId) || notebooks[0];
+        let splitAt = Math.max(2, Math.floor(notebook.currentPage / 2));
+        let newName = `${notebook.name} (part 2)`;
+        let renumber = true;
+
+        let nameInput: TextComponent;
+        new Setting(modal.contentEl)
+            .setName('Notebook')
+            .addDropdown(dropdown => {
+                notebooks.forEach(n => dropdown.addOption(n.id, n.name));
+                dropdown.setValue(notebook.id).onChange((value) => {
+                    notebook = notebooks.find(n => n.id === value) || notebook;
+                    newName = `${notebook.name} (part 2)`;
+                    nameInput.setValue(newName);
+                    updateSummary();
+                });
+            });
+        new Setting(modal.contentEl)
+            .setName('Split at Page').setDesc('This page and everything after it moves to a new notebook.')
+            .addText(text => text.setValue(splitAt.toString()).onChange((value) => {
+                const page = parseInt(value);
+                if (!isNaN(page) && page > 1) {
+                    splitAt = page;
+                    updateSummary();
+                }
+            }));
+        new Setting(modal.contentEl)
+            .setName('New Notebook Name')
+            .addText(text => {
+                nameInput = text;
+                text.setValue(newName).onChange((value) => { newName = value; });
+            });
+        new Setting(modal.contentEl)
+            .setName('Start the New Notebook at Page 1').setDesc('Otherwise the moved pages keep their numbers.')
+            .addToggle(toggle => toggle.setValue(renumber).onChange((value) => { renumber = value; }));
+
+        const summary = modal.contentEl.createEl('p', { cls: 'setting-item-description' });
+        const pagesToMove = () => this.notebookIndexer.getPages(notebook.id).filter(page => page.page >= splitAt);
+        const updateSummary = () => {
+            const pages = pagesToMove();
+            summary.setText(pages.length > 0
+                ? `${pages.length} page${pages.length === 1 ? '' : 's'} (${pages[0].page}–${pages[pages.length - 1].page}) will move to the new notebook.`
+                : `${notebook.name} has no pages from page ${splitAt} on.`);
+        };
+
+        updateSummary();
+
+        const buttonContainer = modal.contentEl.createDiv();
+        buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: flex-end; margin-top: 15px;';
+        const splitBtn = buttonContainer.createEl('button', { text: 'Split', cls: 'mod-cta' });
+        splitBtn.onclick = async () => {
+            const pages = pagesToMove();
+            if (pages.length === 0) {
+                new Notice(`${notebook.name} has no pages from page ${splitAt} on`);
+                return;
+            }
+            if (!newName.trim()) {
+                new Notice('Give the new notebook a name');
+                return;
+            }
+            if (!confirm(`Move ${pages.length} page${pages.length === 1 ? '' : 's'} of ${notebook.name} into a new notebook "${newName}"?`)) return;
+
+            splitBtn.disabled = true;
+            const created = this.createNotebook();
+            created.name = newName.trim();
+            created.status = notebook.status;
+            created.provider = notebook.provider;
+            const firstCreated = this.app.metadataCache.getFileCache(pages[0].file)?.frontmatter?.created;
+            created.startDate = window.moment(firstCreated || pages[0].file.stat.ctime).format('YYYY-MM-DD');
+            this.settings.notebooks.push(created);
+            await this.saveSettings();
+
+            try {
+                await this.movePagesToNotebook(pages, created, renumber ? 1 : null);
+                // The original notebook now ends before the split
+                if (notebook.currentPage > splitAt) {
+                    notebook.currentPage = splitAt;
+                    await this.saveSettings();
+                }
+                new Notice(`✅ Split ${notebook.name}: ${pages.length} page${pages.length === 1 ? '' : 's'} moved to ${created.name}`);
+                modal.close();
+            } catch (error) {
+                // Don't leave an empty notebook behind
+                await this.notebookStore.delete(created);
+                await this.saveSettings();
+                new Notice(`❌ Split failed: ${error.message}`, 0);
+                splitBtn.disabled = false;
+            }
+        };
+
+        modal.open();
+    }
+
+    async activateFolderMonitorView() {
+        const existing = this.app.workspace.getLeavesOfType(FOLDER_MONITOR_VIEW);
+        if (existing.length) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
+
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (leaf) {
+            await leaf.setViewState({ type: FOLDER_MONITOR_VIEW, active: true });
+            this.app.workspace.revealLeaf(leaf);
+        }
     }
 
     async activateChatView() {
@@ -974,9 +5126,53 @@ export default class GeminiNoteProcessor extends Plugin {
             ...loadedData,
             folderMonitor: {
                 ...DEFAULT_SETTINGS.folderMonitor,
-                ...(loadedData?.folderMonitor || {})
-            }
+                ...(loadedData?.folderMonitor || {}),
+                devices: loadedData?.folderMonitor?.devices || [],
+                profiles: loadedData?.folderMonitor?.profiles || []
+            },
+            openAICompatible: {
+                ...DEFAULT_SETTINGS.openAICompatible,
+                ...(loadedData?.openAICompatible || {})
+            },
+            imagePreprocessing: {
+                ...DEFAULT_SETTINGS.imagePreprocessing,
+                ...(loadedData?.imagePreprocessing || {})
+            },
+            processedLedger: loadedData?.processedLedger || [],
+            quarantinedFiles: loadedData?.quarantinedFiles || []
         };
+        // The job queue used to be kept here, where it synced to (and was re-run on) every device
+        delete (this.settings as GeminiNoteProcessorSettings & { processingJobs?: unknown }).processingJobs;
+
+        // Fill in fields added to profiles since they were saved
+        this.settings.folderMonitor.profiles = this.settings.folderMonitor.profiles.map(profile => ({
+            ...this.createFolderMonitorProfile(),
+            ...profile
+        }));
+
+        // Folder monitoring used to watch a single folder; turn that setup into the first profile
+        const legacyMonitor = loadedData?.folderMonitor;
+        if (legacyMonitor && !legacyMonitor.profiles && legacyMonitor.watchFolder) {
+            const profile = this.createFolderMonitorProfile();
+            profile.name = legacyMonitor.watchFolder;
+            profile.watchFolder = legacyMonitor.watchFolder;
+            profile.filePattern = legacyMonitor.filePattern ?? profile.filePattern;
+            profile.processedFolder = legacyMonitor.processedFolder ?? profile.processedFolder;
+            profile.outputFolder = legacyMonitor.outputFolder ?? profile.outputFolder;
+            profile.deleteAfterProcessing = !!legacyMonitor.deleteAfterProcessing;
+            profile.notebookId = legacyMonitor.useNotebook ? (legacyMonitor.notebookId || '') : '';
+            profile.autoIncrementPages = legacyMonitor.autoIncrementPages ?? true;
+            profile.lastProcessedTime = legacyMonitor.lastProcessedTime || 0;
+
+            this.settings.folderMonitor = {
+                ...DEFAULT_SETTINGS.folderMonitor,
+                enabled: !!legacyMonitor.enabled,
+                checkInterval: legacyMonitor.checkInterval || DEFAULT_SETTINGS.folderMonitor.checkInterval,
+                devices: [],
+                profiles: [profile]
+            };
+            await this.saveSettings();
+        }
 
         // Self-healing for old model name. If the saved model is a non-versioned flash model,
         // update it to a specific version that is known to work with the REST API.
@@ -1024,45 +5220,99 @@ export default class GeminiNoteProcessor extends Plugin {
         }
     }
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+    // Saves run one at a time, so two notebook syncs never race to create the same note;
+    // calls made while a save is waiting to start share it instead of queueing another write
+    saveSettings(): Promise<void> {
+        if (!this.pendingSettingsWrite) {
+            const write = this.settingsWrite.then(() => {
+                this.pendingSettingsWrite = null;
+                return this.writeSettings();
+            });
+            this.pendingSettingsWrite = write;
+            this.settingsWrite = write.catch(error => console.error('Failed to save settings:', error));
+        }
+        return this.pendingSettingsWrite;
+    }
+
+    private async writeSettings() {
+        await this.mergeProcessedLedger();
+        // Once loaded, notebooks live in their own notes rather than data.json
+        if (this.notebookStore?.loaded) {
+            await this.saveData({ ...this.settings, notebooks: [] });
+            await this.notebookStore.save();
+        } else {
+            await this.saveData(this.settings);
+        }
+    }
+
+    // data.json syncs as a whole, so fold in entries other devices recorded since we loaded it
+    // rather than overwriting them, and keep only the newest MAX_LEDGER_ENTRIES
+    private async mergeProcessedLedger() {
+        const saved = jsonRecord(await this.loadData());
+        const entries = new Map(this.settings.processedLedger.map(entry => [entry.hash, entry]));
+        if (saved && Array.isArray(saved.processedLedger)) {
+            for (const entry of saved.processedLedger as ProcessedLedgerEntry[]) {
+                if (entry?.hash && !entries.has(entry.hash) && !this.forgottenLedgerHashes.has(entry.hash)) {
+                    entries.set(entry.hash, entry);
+                }
+            }
+        }
+        this.settings.processedLedger = [...entries.values()]
+            .sort((a, b) => b.processedAt - a.processedAt)
+            .slice(0, MAX_LEDGER_ENTRIES);
+    }
+
+    // Remove ledger entries so those files can be processed again
+    async forgetProcessed(hashes: string[]) {
+        hashes.forEach(hash => this.forgottenLedgerHashes.add(hash));
+        this.settings.processedLedger = this.settings.processedLedger.filter(entry => !this.forgottenLedgerHashes.has(entry.hash));
+        await this.saveSettings();
+    }
+
+    // The notebook's provider if it overrides one, otherwise the global provider
+    getProvider(notebook?: Notebook | null): ModelProvider {
+        const id = notebook?.provider || this.settings.modelProvider;
+        return this.providers[id] || this.providers['gemini'];
+    }
+
+    getProviderForFile(file: TFile): ModelProvider {
+        const notebookId = this.app.metadataCache.getFileCache(file)?.frontmatter?.notebook_id;
+        const notebook = notebookId ? this.settings.notebooks.find(n => n.id === notebookId) : null;
+        return this.getProvider(notebook);
+    }
+
+    // Returns false (and tells the user why) when the provider cannot be used yet
+    checkProviderConfigured(provider: ModelProvider): boolean {
+        if (provider.isConfigured()) return true;
+        new Notice(provider.id === 'gemini'
+            ? "Gemini API key is not set."
+            : `${provider.name} is not configured. Set its base URL and model in settings.`);
+        return false;
     }
 
     // New method to test the API key
     async testApiKey() {
-        if (!this.settings.geminiApiKey) {
-            new Notice("Please enter your Gemini API key first.");
+        const provider = this.getProvider();
+        if (!provider.isConfigured()) {
+            new Notice(provider.id === 'gemini'
+                ? "Please enter your Gemini API key first."
+                : `Please set the base URL and model for the ${provider.name} first.`);
             return;
         }
 
-        const apiKey = this.settings.geminiApiKey;
-        const model = this.settings.selectedModel;
-        const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-
         const testPrompt = "Write a short, one-sentence confirmation that the API is working.";
-        const requestBody = { "contents": [{ "parts": [{ "text": testPrompt }] }] };
 
-        const testNotice = new Notice("Testing Gemini API connection...", 0); // Indefinite notice
+        const testNotice = new Notice(`Testing ${provider.name} connection...`, 0); // Indefinite notice
 
         try {
-            const response = await requestUrl({
-                url: API_URL,
-                method: 'POST',
-                contentType: 'application/json',
-                body: JSON.stringify(requestBody)
-            });
-
-            if (response.json.candidates?.[0]?.content?.parts?.[0]?.text) {
-                testNotice.hide(); // Hide the "testing" notice
-                new Notice("✅ Gemini API connection successful!", 5000);
-            } else {
-                throw new Error("Invalid response structure from API.");
-            }
-        } catch (error: any) {
+            // Only retry once so a bad key or model fails fast
+            await provider.generate({ prompt: testPrompt }, { maxRetries: 1 });
+            testNotice.hide(); // Hide the "testing" notice
+            new Notice(`✅ ${provider.name} connection successful!`, 5000);
+        } catch (error) {
             testNotice.hide();
-            console.error("Gemini API test failed:", error);
-            const errorMessage = error.headers ? `HTTP ${error.status}: ${error.message || 'Error'}` : error.message;
-            new Notice(`❌ Gemini API connection failed: ${errorMessage}`, 10000); // Longer notice for errors
+            console.error(`${provider.name} test failed:`, error);
+            new Notice(`❌ ${provider.name} connection failed: ${describeGeminiError(error)}`, 10000); // Longer notice for errors
         }
     }
 
@@ -1072,7 +5322,28 @@ export default class GeminiNoteProcessor extends Plugin {
         insertInCurrentNote?: boolean,
         notebook?: Notebook | null,
         pageNumber?: number | null
-    }) {
+    }): Promise<boolean> {
+        const job = await this.queueExistingImage(file, options);
+        if (!job) return false;
+
+        new Notice(`Processing ${file.name} with Gemini...`);
+        const finished = await this.jobQueue.waitFor(job);
+        if (finished.status === 'done') {
+            new Notice(`Successfully processed ${file.name}!`);
+            await this.offerDetectedPage(finished);
+            return true;
+        }
+        new Notice(`Failed to process ${file.name}: ${finished.error || 'Cancelled'}`);
+        return false;
+    }
+
+    // Ask how to use the result if needed, then queue the image. Returns null if the user backs out.
+    async queueExistingImage(file: TFile, options?: {
+        createNewNote?: boolean,
+        insertInCurrentNote?: boolean,
+        notebook?: Notebook | null,
+        pageNumber?: number | null
+    }): Promise<ProcessingJob | null> {
         const defaults = {
             createNewNote: false,
             insertInCurrentNote: true,
@@ -1081,57 +5352,88 @@ export default class GeminiNoteProcessor extends Plugin {
         };
         const opts = { ...defaults, ...options };
 
-        if (!this.settings.geminiApiKey) {
-            new Notice("Gemini API key is not set.");
-            return;
+        if (!this.checkProviderConfigured(this.getProvider(opts.notebook))) {
+            return null;
         }
 
         // Check if user wants to choose processing method
         if (!opts.createNewNote && !opts.insertInCurrentNote) {
             const choice = await this.showImageProcessingChoiceModal(file);
-            if (!choice) return;
+            if (!choice) return null;
             opts.createNewNote = choice === 'new';
             opts.insertInCurrentNote = choice === 'current';
         }
 
-        new Notice(`Processing ${file.name} with Gemini...`);
+        // The note to insert into is fixed now, since the active file may change before the job runs
+        let targetNotePath: string | null = null;
+        if (!opts.createNewNote && opts.insertInCurrentNote) {
+            const noteFile = this.app.workspace.getActiveFile();
+            if (noteFile && noteFile.extension === 'md') {
+                targetNotePath = noteFile.path;
+            } else {
+                new Notice("No active markdown file to insert into. Creating new note instead.");
+            }
+        }
 
-        try {
-            const imageData = await this.app.vault.readBinary(file);
-            let resultText = await this.callGeminiAPI(imageData);
+        return this.jobQueue.enqueue(file.name, `existing:${file.path}:${targetNotePath || 'new'}`, {
+            kind: 'existing',
+            imagePath: file.path,
+            notebookId: opts.notebook?.id || null,
+            pageNumber: opts.pageNumber,
+            createNewNote: !targetNotePath,
+            targetNotePath
+        });
+    }
 
-            if (!resultText) throw new Error("API call returned no text.");
+    async runExistingImageJob(params: Extract<ProcessingJobParams, { kind: 'existing' }>): Promise<string> {
+        const file = this.app.vault.getAbstractFileByPath(params.imagePath);
+        if (!(file instanceof TFile)) {
+            throw new Error(`Image ${params.imagePath} no longer exists`);
+        }
+        const notebook = params.notebookId ? this.settings.notebooks.find(n => n.id === params.notebookId) || null : null;
+        const transaction = new ProcessingTransaction(this.app);
 
-            if (this.settings.enableTriggerWords) {
-                resultText = await this.processTriggersInText(resultText);
-            }
+        try {
+            return await this.completeExistingImage(params, file, notebook, transaction);
+        } catch (error) {
+            console.error("Error processing existing image:", error);
+            throw new ProcessingFailedError(error, await transaction.rollback());
+        }
+    }
 
-            let locationTag: string | null = null;
-            if (this.settings.enableLocationTagging) {
-                locationTag = await this.extractLocationFromImage(imageData);
-            }
+    private async completeExistingImage(
+        params: Extract<ProcessingJobParams, { kind: 'existing' }>,
+        file: TFile,
+        notebook: Notebook | null,
+        transaction: ProcessingTransaction
+    ): Promise<string> {
+        const imageData = await this.app.vault.readBinary(file);
+        const processed = await this.processImageWithGemini(imageData, notebook);
+        let resultText = processed.markdown;
+
+        if (this.settings.enableTriggerWords) {
+            resultText = await this.processTriggersInText(resultText, this.getProvider(notebook), transaction);
+        }
 
-            const detectedTags = this.parseDetectedTags(resultText);
+        let locationTag: string | null = null;
+        if (this.settings.enableLocationTagging) {
+            locationTag = await this.extractLocationFromImage(imageData);
+        }
 
-            if (opts.createNewNote) {
-                // Create a new note for this image
-                await this.createNoteFromExistingImage(file, resultText, detectedTags, locationTag, opts.notebook, opts.pageNumber);
-            } else if (opts.insertInCurrentNote) {
-                // Insert in current note
-                const noteFile = this.app.workspace.getActiveFile();
-                if (noteFile && noteFile.extension === 'md') {
-                    await this.insertProcessedTextInNote(noteFile, file, resultText, detectedTags, locationTag);
-                } else {
-                    new Notice("No active markdown file to insert into. Creating new note instead.");
-                    await this.createNoteFromExistingImage(file, resultText, detectedTags, locationTag, opts.notebook, opts.pageNumber);
-                }
-            }
+        const detectedTags = processed.tags;
 
-            new Notice(`Successfully processed ${file.name}!`);
-        } catch (error) {
-            console.error("Error processing existing image:", error);
-            new Notice(`Failed to process ${file.name}. Check console.`);
+        const noteFile = params.targetNotePath ? this.app.vault.getAbstractFileByPath(params.targetNotePath) : null;
+        if (noteFile instanceof TFile) {
+            // Insert in the note that was open when the image was queued
+            await this.insertProcessedTextInNote(noteFile, file, resultText, detectedTags, locationTag, transaction);
+            return noteFile.path;
         }
+
+        // Create a new note for this image, using the number on the page if none was given
+        const pageNumber = this.resolvePageNumber(notebook, params.pageNumber, processed);
+        const newNoteFile = await this.createNoteFromExistingImage(file, resultText, detectedTags, locationTag, notebook, pageNumber, processed.title, transaction);
+        params.detectedPage = await this.recordPageInfo(newNoteFile, processed, pageNumber);
+        return newNoteFile.path;
     }
 
     // New method to create note from existing image
@@ -1141,8 +5443,10 @@ export default class GeminiNoteProcessor extends Plugin {
         detectedTags: string[],
         locationTag: string | null,
         notebook: Notebook | null,
-        pageNumber: number | null
-    ) {
+        pageNumber: number | null,
+        title: string | null = null,
+        transaction?: ProcessingTransaction
+    ): Promise<TFile> {
         let noteFolder = "";
         if (notebook && this.settings.groupByNotebook) {
             noteFolder = await this.getAndEnsureFolder(await this.getNotebookFolder(notebook.id));
@@ -1180,9 +5484,11 @@ export default class GeminiNoteProcessor extends Plugin {
         noteContent += `\n---\n${resultText}\n---`;
 
         const newNoteFile = await this.app.vault.create(noteFilePath, noteContent);
-        await this.updateNoteProperties(imageFile, newNoteFile, detectedTags, locationTag, notebook?.id || null, pageNumber);
+        transaction?.trackFile(newNoteFile);
+        await this.updateNoteProperties(imageFile, newNoteFile, detectedTags, locationTag, notebook?.id || null, pageNumber, title);
 
         this.app.workspace.openLinkText(newNoteFile.path, '', true);
+        return newNoteFile;
     }
 
     // Method to insert processed text in current note
@@ -1191,14 +5497,9 @@ export default class GeminiNoteProcessor extends Plugin {
         imageFile: TFile,
         resultText: string,
         detectedTags: string[],
-        locationTag: string | null
+        locationTag: string | null,
+        transaction?: ProcessingTransaction
     ) {
-        const editor = this.app.workspace.activeEditor?.editor;
-        if (!editor) return;
-
-        const cursor = editor.getCursor();
-        const lineContent = editor.getLine(cursor.line);
-
         // Build insert text
         let insertText = '\n\n';
 
@@ -1216,7 +5517,18 @@ export default class GeminiNoteProcessor extends Plugin {
 
         insertText += `---\n### Processed from ${imageFile.name}\n${resultText}\n---`;
 
-        editor.replaceRange(insertText, { line: cursor.line, ch: lineContent.length });
+        // Insert at the cursor if the note is still open, otherwise at the end
+        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (activeView?.file?.path === noteFile.path) {
+            const editor = activeView.editor;
+            const cursor = editor.getCursor();
+            editor.replaceRange(insertText, { line: cursor.line, ch: editor.getLine(cursor.line).length });
+        } else {
+            await this.app.vault.process(noteFile, (content) => content + insertText);
+        }
+        transaction?.onRollback(`removed the inserted text from ${noteFile.name}`, async () => {
+            await this.app.vault.process(noteFile, (content) => content.replace(insertText, ''));
+        });
 
         // Update note properties
         await this.updateNoteProperties(imageFile, noteFile, detectedTags, locationTag, null, null);
@@ -1385,7 +5697,7 @@ export default class GeminiNoteProcessor extends Plugin {
             // Get all images in folder
             const images = folder.children.filter(file =>
                 file instanceof TFile &&
-                file.extension.match(/^(png|jpg|jpeg|gif)$/i)
+                isImageExtension(file.extension)
             ) as TFile[];
 
             if (images.length === 0) {
@@ -1399,32 +5711,49 @@ export default class GeminiNoteProcessor extends Plugin {
             let startingPage = notebook?.currentPage || 1;
 
             const progressNotice = new Notice(`Processing ${images.length} images...`, 0);
+            const failedImages: string[] = [];
+            let finishedCount = 0;
 
+            // Queue everything first, then let the job queue work through it
+            const queued: { name: string; pageNumber: number; job: Promise<ProcessingJob> }[] = [];
             for (let i = 0; i < images.length; i++) {
-                progressNotice.setMessage(`Processing ${i + 1}/${images.length}: ${images[i].name}`);
-
-                try {
-                    await this.processExistingImage(images[i], {
-                        createNewNote: createNotesCheckbox.checked,
-                        insertInCurrentNote: false,
-                        notebook: notebook,
-                        pageNumber: notebook ? startingPage + i : null
-                    });
-
-                    // Small delay between processing
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                } catch (error) {
-                    console.error(`Failed to process ${images[i].name}:`, error);
+                const job = await this.queueExistingImage(images[i], {
+                    createNewNote: createNotesCheckbox.checked,
+                    insertInCurrentNote: false,
+                    notebook: notebook,
+                    pageNumber: notebook ? startingPage + i : null
+                });
+                if (job) {
+                    queued.push({ name: images[i].name, pageNumber: startingPage + i, job: this.jobQueue.waitFor(job) });
+                } else {
+                    failedImages.push(images[i].name);
                 }
             }
 
-            if (notebook) {
-                notebook.currentPage = startingPage + images.length;
+            let highestPage = 0;
+            await Promise.all(queued.map(async ({ name, pageNumber, job }) => {
+                const finished = await job;
+                finishedCount++;
+                progressNotice.setMessage(`Processed ${finishedCount}/${queued.length}: ${name}`);
+                if (finished.status !== 'done') {
+                    failedImages.push(name);
+                } else {
+                    highestPage = Math.max(highestPage, pageNumber);
+                }
+            }));
+
+            // Continue after the last page that got a note, so failed pages at the end are reused
+            if (notebook && highestPage > 0) {
+                notebook.currentPage = highestPage + 1;
                 await this.saveSettings();
             }
 
             progressNotice.hide();
-            new Notice(`Processed ${images.length} images successfully!`);
+            if (failedImages.length > 0) {
+                new Notice(`Processed ${images.length - failedImages.length}/${images.length} images. Failed (partial notes removed): ${failedImages.join(', ')}`, 0);
+            } else {
+                new Notice(`Processed ${images.length} images successfully!`);
+            }
         };
 
         cancelBtn.onclick = () => modal.close();
@@ -1432,11 +5761,28 @@ export default class GeminiNoteProcessor extends Plugin {
         modal.open();
     }
 
-    async discussWithGemini(noteContent: string, userPrompt: string): Promise<string> {
-        const apiKey = this.settings.geminiApiKey;
-        const model = this.settings.selectedModel;
-        const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+    async discussWithGemini(noteContent: string, userPrompt: string, provider: ModelProvider = this.getProvider()): Promise<string> {
+        try {
+            return await provider.generate(this.buildDiscussionRequest(noteContent, userPrompt));
+        } catch (error) {
+            console.error('Gemini discussion failed:', error);
+            throw error;
+        }
+    }
+
+    // Streaming variant of discussWithGemini; onText receives each chunk as it arrives
+    async streamDiscussionWithGemini(noteContent: string, userPrompt: string, onText: (text: string) => void, signal?: AbortSignal, provider: ModelProvider = this.getProvider()): Promise<string> {
+        try {
+            return await provider.stream(this.buildDiscussionRequest(noteContent, userPrompt), onText, signal);
+        } catch (error) {
+            if (!signal?.aborted) {
+                console.error('Gemini discussion stream failed:', error);
+            }
+            throw error;
+        }
+    }
 
+    buildDiscussionRequest(noteContent: string, userPrompt: string): ModelRequest {
         const prompt = `You are having a discussion about a note that was previously processed. Here is the note content:
 
 ---
@@ -1448,29 +5794,7 @@ The user has a follow-up question or request:
 
 Please provide a helpful, detailed, and thoughtful response based on the note content and their question. If appropriate, suggest related topics to explore, provide examples, or offer actionable insights.`;
 
-        const requestBody = {
-            contents: [{
-                parts: [{ text: prompt }]
-            }]
-        };
-
-        try {
-            const response = await requestUrl({
-                url: API_URL,
-                method: 'POST',
-                contentType: 'application/json',
-                body: JSON.stringify(requestBody)
-            });
-
-            if (response.json.candidates?.[0]?.content?.parts?.[0]?.text) {
-                return response.json.candidates[0].content.parts[0].text;
-            } else {
-                throw new Error('No valid response from Gemini');
-            }
-        } catch (error) {
-            console.error('Gemini discussion failed:', error);
-            throw error;
-        }
+        return { prompt };
     }
 
     async appendToDiscussionFile(discussionPath: string, question: string, response: string, sourceFile: TFile) {
@@ -1513,24 +5837,80 @@ ${response}
         }
     }
 
-    async getNotebookFolder(notebookId: string): Promise<string> {
+    // date fills in the pattern's YYYY/MM/DD; today when not given
+    async getNotebookFolder(notebookId: string, date?: string | number): Promise<string> {
         const notebook = this.settings.notebooks.find(n => n.id === notebookId);
         if (!notebook) return this.settings.newNoteLocation;
 
+        const when = window.moment(date);
         let folderPath = this.settings.notebookFolderPattern;
         folderPath = folderPath.replace('{notebook}', notebook.name.replace(/[\\/:*?"<>|]/g, '-'));
-        folderPath = folderPath.replace(/YYYY/g, window.moment().format("YYYY"));
-        folderPath = folderPath.replace(/MM/g, window.moment().format("MM"));
-        folderPath = folderPath.replace(/DD/g, window.moment().format("DD"));
+        folderPath = folderPath.replace(/YYYY/g, when.format("YYYY"));
+        folderPath = folderPath.replace(/MM/g, when.format("MM"));
+        folderPath = folderPath.replace(/DD/g, when.format("DD"));
 
         return folderPath;
     }
 
-    createNotebook(): Notebook {
+    // This device's identity for folder monitor locks. It lives in local storage because settings sync between devices.
+    getDevice(): MonitorDevice {
+        let device = this.app.loadLocalStorage(DEVICE_STORAGE_KEY) as MonitorDevice | null;
+        if (!device?.id) {
+            device = {
+                id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+                name: Platform.isMobile ? 'Mobile' : 'Desktop'
+            };
+            this.app.saveLocalStorage(DEVICE_STORAGE_KEY, device);
+        }
+        return device;
+    }
+
+    // Record this device in settings so others can pick it as the monitor host
+    async registerDevice() {
+        const device = this.getDevice();
+        const known = this.settings.folderMonitor.devices.find(d => d.id === device.id);
+        if (!known) {
+            this.settings.folderMonitor.devices.push({ ...device });
+            await this.saveSettings();
+        } else if (known.name !== device.name) {
+            known.name = device.name;
+            await this.saveSettings();
+        }
+    }
+
+    async renameDevice(name: string) {
+        const device = { ...this.getDevice(), name };
+        this.app.saveLocalStorage(DEVICE_STORAGE_KEY, device);
+        await this.registerDevice();
+    }
+
+    createFolderMonitorProfile(): FolderMonitorProfile {
         return {
             id: Date.now().toString(),
+            name: `Inbox ${this.settings.folderMonitor.profiles.length + 1}`,
+            enabled: true,
+            paused: false,
+            external: false,
+            watchFolder: 'Inbox',
+            filePattern: 'scan-*',
+            processedFolder: 'Inbox/Processed',
+            outputFolder: 'Gemini Scans/Auto-Processed',
+            deleteAfterProcessing: false,
+            notebookId: '',
+            autoIncrementPages: true,
+            prompt: '',
+            tags: '',
+            filenamePatterns: '',
+            lastProcessedTime: 0
+        };
+    }
+
+    createNotebook(): Notebook {
+        return {
+            // Random suffix so notebooks made on two devices at once can't collide
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
             name: `Notebook ${this.settings.notebooks.length + 1}`,
-            startDate: new Date().toISOString(),
+            startDate: window.moment().format('YYYY-MM-DD'),
             currentPage: 1,
             status: 'active',
             description: ''
@@ -1662,10 +6042,10 @@ ${response}
                 const notebookPages: Array<{ file: TFile, page: number, image?: string }> = [];
 
                 for (const file of allFiles) {
-                    const cache = this.app.metadataCache.getFileCache(file);
-                    if (cache?.frontmatter?.notebook_id === notebookId) {
-                        const pageNum = cache.frontmatter.page || 0;
-                        const imageName = cache.frontmatter.image;
+                    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+                    if (frontmatter && String(frontmatter.notebook_id) === notebookId) {
+                        const pageNum = frontmatter.page || 0;
+                        const imageName = frontmatter.image;
                         notebookPages.push({ file, page: pageNum, image: imageName });
                     }
                 }
@@ -2037,13 +6417,13 @@ ${response}
     }
 
     async processImageInCurrentNote(file: TFile) {
-        if (!this.settings.geminiApiKey) { new Notice("Gemini API key is not set."); return; }
+        if (!this.checkProviderConfigured(this.getProvider())) return;
         new Notice("Processing with Gemini...");
 
         try {
             const imageData = await this.app.vault.readBinary(file);
-            let resultText = await this.callGeminiAPI(imageData);
-            if (!resultText) throw new Error("API call returned no text.");
+            const processed = await this.processImageWithGemini(imageData);
+            let resultText = processed.markdown;
 
             if (this.settings.enableTriggerWords) {
                 resultText = await this.processTriggersInText(resultText);
@@ -2056,8 +6436,7 @@ ${response}
 
             const noteFile = this.app.workspace.getActiveFile();
             if (noteFile) {
-                const detectedTags = this.parseDetectedTags(resultText);
-                await this.updateNoteProperties(file, noteFile, detectedTags, locationTag, null, null);
+                await this.updateNoteProperties(file, noteFile, processed.tags, locationTag, null, null);
             }
 
             const editor = this.app.workspace.activeEditor?.editor;
@@ -2082,7 +6461,7 @@ ${response}
             }
         } catch (error) {
             console.error("Error during image processing:", error);
-            new Notice("Failed to process image. Check console.");
+            new Notice(`Failed to process image: ${describeGeminiError(error)}`);
         }
     }
 
@@ -2217,6 +6596,15 @@ ${response}
                 canvas.width = video.videoWidth;
                 canvas.height = video.videoHeight;
                 ctx.drawImage(video, 0, 0);
+
+                // Crop and flatten the page before it goes anywhere
+                if (this.settings.enableDocumentScanner) {
+                    stream.getTracks().forEach(track => track.stop());
+                    modal.close();
+                    resolve(await this.showDocumentScannerModal(canvas));
+                    return;
+                }
+
                 canvas.toBlob(async (blob) => {
                     if (blob) {
                         const arrayBuffer = await blob.arrayBuffer();
@@ -2247,6 +6635,140 @@ ${response}
         });
     }
 
+    // Let the user adjust the detected page corners and pick a filter. Closing the modal keeps the plain photo.
+    async showDocumentScannerModal(photo: HTMLCanvasElement): Promise<ArrayBuffer | null> {
+        const toJpeg = (canvas: HTMLCanvasElement) => new Promise<ArrayBuffer | null>(resolve => {
+            canvas.toBlob(async (blob) => resolve(blob ? await blob.arrayBuffer() : null), 'image/jpeg', 0.9);
+        });
+
+        return new Promise((resolve) => {
+            const modal = new Modal(this.app);
+            modal.titleEl.setText('Scan Document');
+            let resolved = false;
+            const finish = (result: Promise<ArrayBuffer | null>) => {
+                resolved = true;
+                modal.close();
+                result.then(resolve);
+            };
+
+            modal.contentEl.createEl('p', {
+                text: 'Drag the corners to the edges of the page.',
+                cls: 'setting-item-description'
+            });
+
+            // Work on a preview-sized copy so dragging stays smooth
+            const previewScale = Math.min(1, 800 / Math.max(photo.width, photo.height));
+            const preview = modal.contentEl.createEl('canvas');
+            preview.width = Math.round(photo.width * previewScale);
+            preview.height = Math.round(photo.height * previewScale);
+            preview.style.cssText = 'width: 100%; height: auto; touch-action: none; border-radius: 8px; display: block;';
+            const previewCtx = preview.getContext('2d');
+
+            const corners = detectDocumentCorners(photo);
+            let dragging = -1;
+
+            const draw = () => {
+                if (!previewCtx) return;
+                previewCtx.drawImage(photo, 0, 0, preview.width, preview.height);
+                const points = corners.map(point => ({ x: point.x * previewScale, y: point.y * previewScale }));
+
+                previewCtx.beginPath();
+                points.forEach((point, i) => i === 0 ? previewCtx.moveTo(point.x, point.y) : previewCtx.lineTo(point.x, point.y));
+                previewCtx.closePath();
+                previewCtx.fillStyle = 'rgba(72, 136, 255, 0.15)';
+                previewCtx.fill();
+                previewCtx.strokeStyle = '#4888ff';
+                previewCtx.lineWidth = 2;
+                previewCtx.stroke();
+
+                for (const point of points) {
+                    previewCtx.beginPath();
+                    previewCtx.arc(point.x, point.y, 10, 0, Math.PI * 2);
+                    previewCtx.fillStyle = '#ffffff';
+                    previewCtx.fill();
+                    previewCtx.stroke();
+                }
+            };
+
+            // Pointer position in source pixels
+            const toSource = (event: PointerEvent): ScanPoint => {
+                const rect = preview.getBoundingClientRect();
+                const x = ((event.clientX - rect.left) / rect.width) * photo.width;
+                const y = ((event.clientY - rect.top) / rect.height) * photo.height;
+                return { x: Math.max(0, Math.min(photo.width, x)), y: Math.max(0, Math.min(photo.height, y)) };
+            };
+
+            preview.addEventListener('pointerdown', (event) => {
+                const point = toSource(event);
+                const rect = preview.getBoundingClientRect();
+                const reach = (30 / rect.width) * photo.width; // about a fingertip
+                let nearest = -1;
+                let nearestDistance = reach;
+                corners.forEach((corner, i) => {
+                    const d = Math.hypot(corner.x - point.x, corner.y - point.y);
+                    if (d < nearestDistance) { nearest = i; nearestDistance = d; }
+                });
+                if (nearest >= 0) {
+                    dragging = nearest;
+                    preview.setPointerCapture(event.pointerId);
+                }
+            });
+            preview.addEventListener('pointermove', (event) => {
+                if (dragging < 0) return;
+                corners[dragging] = toSource(event);
+                draw();
+            });
+            const endDrag = () => { dragging = -1; };
+            preview.addEventListener('pointerup', endDrag);
+            preview.addEventListener('pointercancel', endDrag);
+
+            let filter: ScanFilter = this.settings.scannerFilter;
+            new Setting(modal.contentEl)
+                .setName('Filter')
+                .addDropdown(dropdown => dropdown
+                    .addOption('none', 'Original colour')
+                    .addOption('enhance', 'Enhanced contrast')
+                    .addOption('binarize', 'Black and white')
+                    .setValue(filter)
+                    .onChange((value) => { filter = value as ScanFilter; }));
+
+            const buttonContainer = modal.contentEl.createDiv();
+            buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center; margin-top: 15px;';
+
+            const scanBtn = buttonContainer.createEl('button', { text: '✂️ Use Scan', cls: 'mod-cta' });
+            const photoBtn = buttonContainer.createEl('button', { text: 'Use Full Photo' });
+
+            scanBtn.onclick = () => {
+                scanBtn.disabled = true;
+                scanBtn.setText('Scanning...');
+                // Let the button repaint before the heavy pixel work
+                setTimeout(() => {
+                    try {
+                        const page = warpPerspective(photo, corners);
+                        applyScanFilter(page, filter);
+                        finish(toJpeg(page));
+                    } catch (error) {
+                        console.error('Document scan failed:', error);
+                        new Notice(`Scan failed: ${error.message}. Adjust the corners or use the full photo.`);
+                        scanBtn.disabled = false;
+                        scanBtn.setText('✂️ Use Scan');
+                    }
+                }, 50);
+            };
+            photoBtn.onclick = () => finish(toJpeg(photo));
+
+            modal.onClose = () => {
+                if (!resolved) {
+                    resolved = true;
+                    toJpeg(photo).then(resolve);
+                }
+            };
+
+            modal.open();
+            draw();
+        });
+    }
+
     async showAndroidCameraModeModal(): Promise<'camera' | 'gallery' | null> {
         return new Promise((resolve) => {
             const modal = new Modal(this.app);
@@ -2301,13 +6823,12 @@ ${response}
     }
 
     async createNoteFromImageCapture() {
-        if (!this.settings.geminiApiKey) {
-            new Notice("Gemini API key is not set.");
+        const { notebook: selectedNotebook, pageNumber: initialPageNumber, cancelled } = await this.showNotebookSelectionModal();
+        if (cancelled) {
             return;
         }
 
-        const { notebook: selectedNotebook, pageNumber: initialPageNumber, cancelled } = await this.showNotebookSelectionModal();
-        if (cancelled) {
+        if (!this.checkProviderConfigured(this.getProvider(selectedNotebook))) {
             return;
         }
 
@@ -2316,9 +6837,15 @@ ${response}
     }
 
     async startMultiPageCapture(selectedNotebook: Notebook | null, startingPageNumber: number | null) {
+        if (this.settings.reviewBeforeProcessing) {
+            await this.startReviewedCapture(selectedNotebook, startingPageNumber);
+            return;
+        }
+
         let currentPageNumber = startingPageNumber;
         let pagesProcessed = 0;
         let continueCapturing = true;
+        const queued: Promise<ProcessingJob>[] = [];
 
         // Detect platform once
         const userAgent = navigator.userAgent;
@@ -2326,6 +6853,11 @@ ${response}
         const isAndroid = /Android/i.test(userAgent);
 
         while (continueCapturing) {
+            // A page that failed in the background hands its number back, so pick up from the counter
+            if (pagesProcessed > 0 && selectedNotebook && currentPageNumber && this.settings.autoIncrementPage) {
+                currentPageNumber = selectedNotebook.currentPage;
+            }
+
             // Show current page info
             const pageInfo = selectedNotebook && currentPageNumber
                 ? `Page ${currentPageNumber} of ${selectedNotebook.name}`
@@ -2351,15 +6883,15 @@ ${response}
                 if (result.files && result.files.length > 0) {
                     // Process multiple files if selected
                     if (result.files.length > 1) {
-                        await this.processBatchImages(
+                        const nextPageNumber = await this.processBatchImages(
                             result.files,
                             selectedNotebook,
                             currentPageNumber
                         );
 
-                        // Update page number based on files processed
-                        if (selectedNotebook && currentPageNumber) {
-                            currentPageNumber += result.files.length;
+                        // Continue after the last page that was actually used
+                        if (selectedNotebook && nextPageNumber) {
+                            currentPageNumber = nextPageNumber;
                             selectedNotebook.currentPage = currentPageNumber;
                             await this.saveSettings();
                         }
@@ -2380,8 +6912,9 @@ ${response}
                 break;
             }
 
-            // Process the single captured image
-            await this.processCapturedImage(imageData, sourceFileName, selectedNotebook, currentPageNumber);
+            // Queue the page and carry on capturing while it processes in the background
+            const job = await this.queueCapturedImage(imageData, sourceFileName, selectedNotebook, currentPageNumber);
+            queued.push(this.jobQueue.waitFor(job));
             pagesProcessed++;
 
             // Update page number for next capture
@@ -2397,8 +6930,239 @@ ${response}
 
         // Final summary
         if (pagesProcessed > 0) {
-            new Notice(`✅ Successfully processed ${pagesProcessed} page${pagesProcessed > 1 ? 's' : ''}`);
+            new Notice(`📥 Queued ${pagesProcessed} page${pagesProcessed > 1 ? 's' : ''} for processing`);
+        }
+
+        // Once the session is over, offer the numbers written on the pages that disagreed
+        await this.offerDetectedPages(await Promise.all(queued));
+    }
+
+    // Capture one photo, or pick any number from the gallery
+    async capturePages(): Promise<{ data: ArrayBuffer; name: string }[]> {
+        const userAgent = navigator.userAgent;
+        const isIOS = /iPhone|iPad|iPod/i.test(userAgent);
+        const isAndroid = /Android/i.test(userAgent);
+
+        if (isAndroid && this.settings.androidCameraMode !== 'gallery') {
+            const imageData = await this.captureFromAndroidCamera();
+            if (imageData) return [{ data: imageData, name: 'captured-image.jpg' }];
+        }
+
+        const result = await this.selectImageFiles(isIOS, isAndroid);
+        const pages: { data: ArrayBuffer; name: string }[] = [];
+        for (const file of result.files) {
+            pages.push({ data: await file.arrayBuffer(), name: file.name });
+        }
+        return pages;
+    }
+
+    // Collect every page of a session first, then process them once the user has reviewed them
+    async startReviewedCapture(selectedNotebook: Notebook | null, startingPageNumber: number | null) {
+        const captured = await this.capturePages();
+        if (captured.length === 0) return;
+
+        const pages: CapturedPage[] = captured.map((page, i) => ({
+            ...page,
+            rotation: 0,
+            pageNumber: startingPageNumber !== null ? startingPageNumber + i : null
+        }));
+
+        const confirmed = await this.showCaptureReviewModal(pages, selectedNotebook, startingPageNumber);
+        if (!confirmed || pages.length === 0) {
+            new Notice('Capture session discarded');
+            return;
+        }
+
+        const progressNotice = new Notice(`Processing ${pages.length} pages...`, 0);
+        const failedPages: string[] = [];
+        let processedCount = 0;
+
+        // Queue every page up front so the job queue can work on several at once
+        const queued: { label: string; pageNumber: number | null; job: Promise<ProcessingJob> }[] = [];
+        for (const page of pages) {
+            const label = page.pageNumber !== null ? `page ${page.pageNumber}` : page.name;
+            try {
+                const imageData = await rotateImage(page.data, page.rotation);
+                const job = await this.queueCapturedImage(imageData, page.name, selectedNotebook, page.pageNumber, true, page.data);
+                queued.push({ label, pageNumber: page.pageNumber, job: this.jobQueue.waitFor(job) });
+            } catch (error) {
+                console.error(`Error queueing ${label}:`, error);
+                failedPages.push(label);
+            }
         }
+
+        let offlineCount = 0;
+        let highest = 0;
+        const finishedJobs = await Promise.all(queued.map(async ({ label, pageNumber, job }) => {
+            const finished = await job;
+            if (finished.status === 'done') {
+                processedCount++;
+            } else if (finished.status === 'waiting') {
+                offlineCount++;
+            } else {
+                failedPages.push(label);
+            }
+            // Failed pages keep their number too; their photo is saved in a note marked as failed
+            if (finished.status !== 'cancelled') {
+                highest = Math.max(highest, pageNumber || 0);
+            }
+            progressNotice.setMessage(`Processed ${processedCount + offlineCount + failedPages.length} of ${pages.length} pages`);
+            return finished;
+        }));
+
+        // Continue the notebook after the highest page that was actually used
+        if (selectedNotebook && this.settings.autoIncrementPage) {
+            if (highest >= selectedNotebook.currentPage) {
+                selectedNotebook.currentPage = highest + 1;
+                await this.saveSettings();
+            }
+        }
+
+        progressNotice.hide();
+        if (offlineCount > 0) {
+            new Notice(`📴 ${offlineCount} page${offlineCount > 1 ? 's' : ''} saved as placeholders, to be filled in when you're back online`);
+        }
+        if (failedPages.length > 0) {
+            new Notice(`⚠️ Processed ${processedCount} of ${pages.length} pages. Failed (saved as notes marked failed): ${failedPages.join(', ')}`, 0);
+        } else if (processedCount > 0) {
+            new Notice(`✅ Successfully processed ${processedCount} page${processedCount > 1 ? 's' : ''}`);
+        }
+
+        await this.offerDetectedPages(finishedJobs);
+    }
+
+    // Review grid for a capture session. Edits the pages array in place; resolves true to process it.
+    async showCaptureReviewModal(pages: CapturedPage[], notebook: Notebook | null, startingPageNumber: number | null): Promise<boolean> {
+        return new Promise((resolve) => {
+            const modal = new Modal(this.app);
+            modal.titleEl.setText('Review Pages');
+            modal.modalEl.style.width = 'min(900px, 95vw)';
+
+            let resolved = false;
+            let numberInOrder = true; // page numbers follow the grid order until one is edited by hand
+            const thumbnailUrls = new Map<ArrayBuffer, string>();
+            const thumbnailUrl = (page: CapturedPage) => {
+                let url = thumbnailUrls.get(page.data);
+                if (!url) {
+                    url = URL.createObjectURL(new Blob([page.data], { type: sniffMimeType(page.data) || 'image/jpeg' }));
+                    thumbnailUrls.set(page.data, url);
+                }
+                return url;
+            };
+
+            const summary = modal.contentEl.createEl('p', { cls: 'setting-item-description' });
+            const grid = modal.contentEl.createDiv();
+            grid.style.cssText = 'display: grid; grid-template-columns: repeat(auto-fill, minmax(150px, 1fr)); gap: 12px; max-height: 60vh; overflow-y: auto; padding: 4px;';
+
+            const renumber = () => {
+                if (!numberInOrder || startingPageNumber === null) return;
+                pages.forEach((page, i) => { page.pageNumber = startingPageNumber + i; });
+            };
+
+            const render = () => {
+                summary.setText(`${pages.length} page${pages.length === 1 ? '' : 's'}${notebook ? ` for ${notebook.name}` : ''}. Reorder, rotate, retake or delete pages before processing.`);
+                processBtn.setText(`🚀 Process ${pages.length} Page${pages.length === 1 ? '' : 's'}`);
+                processBtn.disabled = pages.length === 0;
+                grid.empty();
+
+                pages.forEach((page, index) => {
+                    const card = grid.createDiv();
+                    card.style.cssText = 'border: 1px solid var(--background-modifier-border); border-radius: 8px; padding: 8px; display: flex; flex-direction: column; gap: 6px;';
+
+                    const frame = card.createDiv();
+                    frame.style.cssText = 'height: 140px; display: flex; align-items: center; justify-content: center; overflow: hidden; background: var(--background-secondary); border-radius: 4px;';
+                    const img = frame.createEl('img', { attr: { src: thumbnailUrl(page) } });
+                    img.style.cssText = `max-width: 100%; max-height: 100%; transform: rotate(${page.rotation}deg);`;
+
+                    if (notebook) {
+                        const numberRow = card.createDiv();
+                        numberRow.style.cssText = 'display: flex; align-items: center; gap: 6px; font-size: 0.9em;';
+                        numberRow.createSpan({ text: 'Page' });
+                        const input = numberRow.createEl('input', { type: 'number', value: page.pageNumber !== null ? page.pageNumber.toString() : '' });
+                        input.style.cssText = 'width: 70px;';
+                        input.onchange = () => {
+                            const value = parseInt(input.value);
+                            page.pageNumber = isNaN(value) ? null : value;
+                            numberInOrder = false;
+                        };
+                    } else {
+                        card.createDiv({ text: `#${index + 1}`, cls: 'setting-item-description' });
+                    }
+
+                    const controls = card.createDiv();
+                    controls.style.cssText = 'display: flex; flex-wrap: wrap; gap: 4px;';
+                    const control = (text: string, title: string, onClick: () => void | Promise<void>, disabled = false) => {
+                        const btn = controls.createEl('button', { text, attr: { title } });
+                        btn.style.cssText = 'padding: 2px 8px;';
+                        btn.disabled = disabled;
+                        btn.onclick = async () => {
+                            await onClick();
+                            render();
+                        };
+                    };
+
+                    control('◀', 'Move earlier', () => {
+                        [pages[index - 1], pages[index]] = [pages[index], pages[index - 1]];
+                        renumber();
+                    }, index === 0);
+                    control('▶', 'Move later', () => {
+                        [pages[index + 1], pages[index]] = [pages[index], pages[index + 1]];
+                        renumber();
+                    }, index === pages.length - 1);
+                    control('↻', 'Rotate clockwise', () => {
+                        page.rotation = (page.rotation + 90) % 360;
+                    });
+                    control('📸', 'Retake', async () => {
+                        const retaken = await this.capturePages();
+                        if (retaken.length > 0) {
+                            page.data = retaken[0].data;
+                            page.name = retaken[0].name;
+                            page.rotation = 0;
+                        }
+                    });
+                    control('🗑️', 'Delete', () => {
+                        pages.splice(index, 1);
+                        renumber();
+                    });
+                });
+            };
+
+            const buttonContainer = modal.contentEl.createDiv();
+            buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center; margin-top: 15px;';
+
+            const addBtn = buttonContainer.createEl('button', { text: '📸 Add Pages' });
+            const processBtn = buttonContainer.createEl('button', { cls: 'mod-cta' });
+            const cancelBtn = buttonContainer.createEl('button', { text: 'Discard' });
+
+            addBtn.onclick = async () => {
+                const added = await this.capturePages();
+                for (const page of added) {
+                    const last = pages[pages.length - 1];
+                    const nextNumber = last?.pageNumber != null ? last.pageNumber + 1 : startingPageNumber;
+                    pages.push({ ...page, rotation: 0, pageNumber: nextNumber });
+                }
+                render();
+            };
+
+            processBtn.onclick = () => {
+                resolved = true;
+                modal.close();
+                resolve(true);
+            };
+
+            cancelBtn.onclick = () => {
+                if (pages.length > 0 && !confirm(`Discard all ${pages.length} captured pages?`)) return;
+                modal.close();
+            };
+
+            modal.onClose = () => {
+                thumbnailUrls.forEach(url => URL.revokeObjectURL(url));
+                if (!resolved) resolve(false);
+            };
+
+            render();
+            modal.open();
+        });
     }
 
     async selectImageFiles(isIOS: boolean, isAndroid: boolean): Promise<{ files: File[] }> {
@@ -2447,39 +7211,62 @@ ${response}
         files: File[],
         selectedNotebook: Notebook | null,
         startingPageNumber: number | null
-    ) {
+    ): Promise<number | null> {
         const progressNotice = new Notice(`Processing ${files.length} images...`, 0);
         let currentPageNumber = startingPageNumber;
-
-        for (let i = 0; i < files.length; i++) {
-            const file = files[i];
-            progressNotice.setMessage(`Processing image ${i + 1} of ${files.length}: ${file.name}`);
-
+        const failedFiles: string[] = [];
+        let finishedCount = 0;
+        let offlineCount = 0;
+        let highestPage = 0;
+
+        // Queue every image up front; page numbers are fixed now so they don't depend on finishing order
+        const queued: { name: string; pageNumber: number | null; job: Promise<ProcessingJob> }[] = [];
+        for (const file of files) {
             try {
                 const imageData = await file.arrayBuffer();
-                await this.processCapturedImage(
-                    imageData,
-                    file.name,
-                    selectedNotebook,
-                    currentPageNumber
-                );
+                const job = await this.queueCapturedImage(imageData, file.name, selectedNotebook, currentPageNumber, true);
+                queued.push({ name: file.name, pageNumber: currentPageNumber, job: this.jobQueue.waitFor(job) });
 
                 // Increment page number for next image
                 if (selectedNotebook && currentPageNumber) {
                     currentPageNumber++;
                 }
-
-                // Small delay between processing to avoid overwhelming the API
-                if (i < files.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                }
             } catch (error) {
-                console.error(`Error processing ${file.name}:`, error);
-                new Notice(`Failed to process ${file.name}. Continuing with next image...`);
+                console.error(`Error queueing ${file.name}:`, error);
+                failedFiles.push(file.name);
             }
         }
 
+        const finishedJobs = await Promise.all(queued.map(async ({ name, pageNumber, job }) => {
+            const finished = await job;
+            finishedCount++;
+            progressNotice.setMessage(`Processed ${finishedCount} of ${files.length} images`);
+            if (finished.status === 'waiting') {
+                offlineCount++;
+            } else if (finished.status !== 'done') {
+                failedFiles.push(name);
+                new Notice(`Failed to process ${name}: ${finished.error || 'Cancelled'}`);
+                if (finished.status === 'cancelled') return finished;
+            }
+            highestPage = Math.max(highestPage, pageNumber || 0);
+            return finished;
+        }));
+
         progressNotice.hide();
+        if (offlineCount > 0) {
+            new Notice(`📴 ${offlineCount} image${offlineCount > 1 ? 's' : ''} saved as placeholders, to be filled in when you're back online`);
+        }
+        if (failedFiles.length > 0) {
+            new Notice(`${failedFiles.length} of ${files.length} images failed and were saved as notes marked failed: ${failedFiles.join(', ')}`, 0);
+        }
+
+        await this.offerDetectedPages(finishedJobs);
+
+        // The page after the last one that produced a note (including placeholders and failed pages); cancelled pages at the end are reused.
+        // A page refiled under its own number may have moved the counter further on.
+        if (!startingPageNumber) return null;
+        const nextPage = highestPage > 0 ? highestPage + 1 : startingPageNumber;
+        return selectedNotebook ? Math.max(nextPage, selectedNotebook.currentPage) : nextPage;
     }
 
     async askToContinueCapture(pagesProcessed: number, notebook: Notebook | null): Promise<boolean> {
@@ -2557,92 +7344,334 @@ ${response}
         });
     }
 
-    async processCapturedImage(
+    // Save the image as an attachment and queue it for processing. Resolves once the job is queued.
+    // locationSource: the photo as taken, when imageData has been re-encoded (e.g. rotated) and lost its EXIF
+    async queueCapturedImage(
         imageData: ArrayBuffer,
         sourceFileName: string,
         selectedNotebook: Notebook | null,
         pageNumber: number | null,
-        isBatchMode: boolean = false
-    ) {
-        const quietMode = isBatchMode; // Less noisy in batch mode
+        isBatchMode = false,
+        locationSource: ArrayBuffer = imageData
+    ): Promise<ProcessingJob> {
+        const attachmentFolder = await this.getAndEnsureFolder(this.settings.attachmentLocation);
+
+        // Attach the resized copy unless the original is wanted, in which case it's resized when uploaded
+        const preprocessed = this.settings.imagePreprocessing.keepOriginal ? null : await this.preprocessImage(imageData);
+        const attachment = preprocessed ? preprocessed.data : imageData;
+        const extension = attachment === imageData ? (sourceFileName.split('.').pop()?.toLowerCase() || 'jpg') : 'jpg';
+        const imageFileName = `GeminiCapture-${Date.now()}.${extension}`;
+        const imageFilePath = `${attachmentFolder}/${imageFileName}`;
+        const imageFile = await this.app.vault.createBinary(imageFilePath, attachment);
+
+        // Read the location from the original now, since a resized copy has no EXIF left to read
+        const locationTag = this.settings.enableLocationTagging ? await this.extractLocationFromImage(locationSource) : null;
+
+        const label = selectedNotebook && pageNumber ? `${selectedNotebook.name} page ${pageNumber}` : sourceFileName;
+        return this.jobQueue.enqueue(label, `capture:${imageFile.path}`, {
+            kind: 'capture',
+            imagePath: imageFile.path,
+            notebookId: selectedNotebook?.id || null,
+            pageNumber,
+            quiet: isBatchMode,
+            preprocessed: preprocessed !== null,
+            locationTag
+        });
+    }
 
-        if (!quietMode) {
-            new Notice("Uploading and processing image...");
+    // Create the note for a queued capture. On failure everything it wrote is undone and the photo is
+    // kept in a note marked as failed (the offline placeholder, if there is one) before the error is rethrown.
+    async runCaptureJob(params: Extract<ProcessingJobParams, { kind: 'capture' }>): Promise<string> {
+        const imageFile = this.app.vault.getAbstractFileByPath(params.imagePath);
+        if (!(imageFile instanceof TFile)) {
+            throw new Error(`Captured image ${params.imagePath} no longer exists`);
         }
+        const selectedNotebook = params.notebookId ? this.settings.notebooks.find(n => n.id === params.notebookId) || null : null;
+        const transaction = new ProcessingTransaction(this.app);
 
         try {
-            let noteFolder = "";
-            if (selectedNotebook && this.settings.groupByNotebook) {
-                noteFolder = await this.getAndEnsureFolder(await this.getNotebookFolder(selectedNotebook.id));
-            } else {
-                noteFolder = await this.getAndEnsureFolder(this.settings.newNoteLocation);
+            return await this.completeCapture(params, imageFile, selectedNotebook, transaction);
+        } catch (error) {
+            if (error instanceof JobDeferredError) throw error;
+            console.error("Error creating note from image:", error);
+
+            // Undo what this run wrote, but never the capture itself: it may be the only copy of the page
+            const cleanup = await transaction.rollback();
+            const placeholder = params.placeholderPath ? this.app.vault.getAbstractFileByPath(params.placeholderPath) : null;
+            try {
+                const failedNote = placeholder instanceof TFile
+                    ? placeholder
+                    : await this.createCaptureNote(imageFile, selectedNotebook, params.pageNumber, FAILED_CAPTURE_NOTE, [], null, null);
+                await this.app.fileManager.processFrontMatter(failedNote, (frontmatter) => {
+                    frontmatter.gemini_status = 'failed';
+                });
+                cleanup.push(`kept ${imageFile.name} in ${failedNote.basename}, marked as failed`);
+            } catch (noteError) {
+                console.error('Could not save a note for the failed capture:', noteError);
+                cleanup.push(`kept ${imageFile.name}`);
+                cleanup.push(...await this.releasePageNumber(selectedNotebook, params.pageNumber));
             }
 
-            const attachmentFolder = await this.getAndEnsureFolder(this.settings.attachmentLocation);
+            const failure = new ProcessingFailedError(error, cleanup);
+            if (!params.quiet) {
+                new Notice(`❌ Couldn't create a note from the capture: ${failure.message}`, 0);
+            }
+            throw failure;
+        }
+    }
 
-            const extension = sourceFileName.split('.').pop()?.toLowerCase() || 'jpg';
-            const imageFileName = `GeminiCapture-${Date.now()}.${extension}`;
-            const imageFilePath = `${attachmentFolder}/${imageFileName}`;
-            const imageFile = await this.app.vault.createBinary(imageFilePath, imageData);
+    // Hand a page number back to the notebook if nothing after it has been used yet
+    async releasePageNumber(notebook: Notebook | null, pageNumber: number | null): Promise<string[]> {
+        if (!notebook || !pageNumber) return [];
+        if (notebook.currentPage === pageNumber + 1) {
+            notebook.currentPage = pageNumber;
+            await this.saveSettings();
+            return [`page counter set back to ${pageNumber}`];
+        }
+        return [`page ${pageNumber} left unused`];
+    }
 
-            let resultText = await this.callGeminiAPI(imageData);
-            if (!resultText) throw new Error("API call returned no text.");
+    private async completeCapture(
+        params: Extract<ProcessingJobParams, { kind: 'capture' }>,
+        imageFile: TFile,
+        selectedNotebook: Notebook | null,
+        transaction: ProcessingTransaction
+    ): Promise<string> {
+        let pageNumber = params.pageNumber;
+        const quietMode = params.quiet;
 
-            if (this.settings.enableTriggerWords) {
-                resultText = await this.processTriggersInText(resultText);
+        const imageData = await this.app.vault.readBinary(imageFile);
+        let processed: ProcessedNote;
+        try {
+            if (!navigator.onLine) {
+                throw new GeminiError('Device is offline', 'network', null, true);
+            }
+            processed = await this.processImageWithGemini(imageData, selectedNotebook, { preprocessed: params.preprocessed });
+        } catch (error) {
+            if (!(error instanceof GeminiError && error.category === 'network')) {
+                throw error;
             }
 
-            const detectedTags = this.parseDetectedTags(resultText);
+            // No connection: leave a placeholder now and fill it in once we're back online
+            if (!params.placeholderPath || !this.app.vault.getAbstractFileByPath(params.placeholderPath)) {
+                const placeholder = await this.createCaptureNote(imageFile, selectedNotebook, pageNumber, OFFLINE_PLACEHOLDER, [], null, null);
+                await this.app.fileManager.processFrontMatter(placeholder, (frontmatter) => {
+                    frontmatter.gemini_status = 'pending';
+                });
+                params.placeholderPath = placeholder.path;
 
-            let locationTag: string | null = null;
-            if (this.settings.enableLocationTagging) {
-                locationTag = await this.extractLocationFromImage(imageData);
+                if (!quietMode) {
+                    this.app.workspace.openLinkText(placeholder.path, '', true);
+                    new Notice("📴 Offline: saved a placeholder note. It will be filled in when you're back online.");
+                }
             }
+            throw new JobDeferredError(error.message);
+        }
 
-            const timestamp = window.moment().format('YYYY-MM-DD HH-mm-ss');
+        // A page with no number given takes the one written on it
+        pageNumber = this.resolvePageNumber(selectedNotebook, pageNumber, processed);
 
-            let noteFileName: string;
-            if (selectedNotebook && pageNumber) {
-                noteFileName = `Page ${pageNumber} - ${timestamp}.md`;
-            } else {
-                noteFileName = `Note ${timestamp}.md`;
-            }
+        let resultText = processed.markdown;
 
-            const noteFilePath = noteFolder ? `${noteFolder}/${noteFileName}` : noteFileName;
+        if (this.settings.enableTriggerWords) {
+            resultText = await this.processTriggersInText(resultText, this.getProvider(selectedNotebook), transaction);
+        }
 
-            // Build note content
-            let noteContent = '';
+        const detectedTags = processed.tags;
 
-            if (this.settings.enableDiscussionLinks) {
-                const encodedPath = encodeURIComponent(noteFilePath);
-                noteContent += `[${this.settings.discussionLinkText}](obsidian://gemini-discuss?file=${encodedPath})\n\n`;
+        // Jobs queued before the location was read up front still read it from the attachment
+        let locationTag = params.locationTag ?? null;
+        if (params.locationTag === undefined && this.settings.enableLocationTagging) {
+            locationTag = await this.extractLocationFromImage(imageData);
+        }
+
+        // Fill in the placeholder left while offline, if there is one
+        const placeholder = params.placeholderPath ? this.app.vault.getAbstractFileByPath(params.placeholderPath) : null;
+        if (placeholder instanceof TFile) {
+            // A placeholder saved without a page number takes the one read off the page, in its notebook line and name
+            const numbered = selectedNotebook && pageNumber && !params.pageNumber ? pageNumber : null;
+            await this.app.vault.process(placeholder, (content) => {
+                let filled = content.includes(OFFLINE_PLACEHOLDER)
+                    ? content.replace(OFFLINE_PLACEHOLDER, resultText)
+                    : `${content}\n\n---\n${resultText}\n---`;
+                if (selectedNotebook && numbered) {
+                    filled = filled.replace(`![[${imageFile.path}]]\n`, (embed) => `${embed}\n> **Notebook:** ${selectedNotebook.name} | **Page:** ${numbered}\n`);
+                }
+                return filled;
+            });
+            if (numbered && placeholder.basename.startsWith('Note ')) {
+                const renamed = `${placeholder.parent && !placeholder.parent.isRoot() ? `${placeholder.parent.path}/` : ''}Page ${numbered} - ${placeholder.name.substring('Note '.length)}`;
+                if (!this.app.vault.getAbstractFileByPath(renamed)) {
+                    await this.app.fileManager.renameFile(placeholder, renamed);
+                }
             }
+            await this.updateNoteProperties(imageFile, placeholder, detectedTags, locationTag, selectedNotebook?.id || null, pageNumber, processed.title);
+            params.detectedPage = await this.recordPageInfo(placeholder, processed, pageNumber);
+            await this.app.fileManager.processFrontMatter(placeholder, (frontmatter) => {
+                delete frontmatter.gemini_status;
+            });
+            new Notice(`✅ Filled in ${placeholder.basename} now that you're back online`);
+            return placeholder.path;
+        }
 
-            noteContent += `![[${imageFile.path}]]\n`;
+        const newNoteFile = await this.createCaptureNote(imageFile, selectedNotebook, pageNumber, resultText, detectedTags, locationTag, processed.title, transaction);
+        params.detectedPage = await this.recordPageInfo(newNoteFile, processed, pageNumber);
 
-            if (selectedNotebook && pageNumber) {
-                noteContent += `\n> **Notebook:** ${selectedNotebook.name} | **Page:** ${pageNumber}\n`;
-            } else if (!selectedNotebook) {
-                noteContent += `\n> **Source:** Loose paper / No notebook\n`;
-            }
+        if (!quietMode) {
+            this.app.workspace.openLinkText(newNoteFile.path, '', true);
+            new Notice("New note created successfully!");
+        }
+        return newNoteFile.path;
+    }
+
+    // Settle the page number for a processed page. The number read off the page is used when none was
+    // expected; otherwise the expected number is kept and recordPageInfo notes the conflict. Jobs never ask:
+    // the capture flows offer the page's own number once their jobs finish (offerDetectedPages), as does the audit.
+    resolvePageNumber(notebook: Notebook | null, expected: number | null, processed: ProcessedNote): number | null {
+        const detected = processed.pageNumber;
+        if (!notebook || !detected || expected) return expected;
+        return detected;
+    }
+
+    // Save the date read off the page, and the page's own number when it was filed under a different one.
+    // Returns that number, if any.
+    async recordPageInfo(noteFile: TFile, processed: ProcessedNote, pageNumber: number | null): Promise<number | undefined> {
+        const conflict = processed.pageNumber && processed.pageNumber !== pageNumber ? processed.pageNumber : undefined;
+        if (!processed.pageDate && !conflict) return undefined;
+        await this.app.fileManager.processFrontMatter(noteFile, (frontmatter) => {
+            if (processed.pageDate) frontmatter.page_date = processed.pageDate;
+            if (conflict) frontmatter.detected_page = conflict;
+        });
+        return conflict;
+    }
 
-            noteContent += `\n---\n${resultText}\n---`;
+    // Offer the page's own number for each finished job in turn, so only one prompt is open at a time
+    async offerDetectedPages(jobs: ProcessingJob[]) {
+        for (const job of jobs) {
+            if (job.status === 'done') await this.offerDetectedPage(job);
+        }
+    }
 
-            const newNoteFile = await this.app.vault.create(noteFilePath, noteContent);
-            await this.updateNoteProperties(imageFile, newNoteFile, detectedTags, locationTag, selectedNotebook?.id || null, pageNumber);
+    // Once a job's note exists, offer to refile it under the number written on the page
+    async offerDetectedPage(job: ProcessingJob) {
+        const params = job.params;
+        if (params.kind === 'monitor' || !params.detectedPage || !params.pageNumber) return;
+        const notebook = params.notebookId ? this.settings.notebooks.find(n => n.id === params.notebookId) : null;
+        const noteFile = job.result ? this.app.vault.getAbstractFileByPath(job.result) : null;
+        if (!notebook || !(noteFile instanceof TFile)) return;
 
-            if (!quietMode) {
-                this.app.workspace.openLinkText(newNoteFile.path, '', true);
-                new Notice("New note created successfully!");
-            }
+        const expected = params.pageNumber;
+        const detected = params.detectedPage;
+        const pageDate = this.app.metadataCache.getFileCache(noteFile)?.frontmatter?.page_date;
+        if (!await this.showPageConflictModal(notebook, expected, detected, typeof pageDate === 'string' ? pageDate : null)) return;
 
+        try {
+            await this.applyRenumbering(notebook, [{
+                page: { file: noteFile, page: expected, title: noteFile.basename, image: null, detectedPage: detected },
+                newPage: detected,
+                newPath: renumberedPath(noteFile.path, detected)
+            }], false);
+            new Notice(`Filed ${noteFile.basename} as page ${detected}`);
         } catch (error) {
-            console.error("Error creating note from image:", error);
-            if (!quietMode) {
-                new Notice("Failed to create note. See console.");
+            new Notice(`❌ Couldn't refile the page: ${error instanceof Error ? error.message : String(error)}`, 0);
+        }
+    }
+
+    showPageConflictModal(notebook: Notebook, expected: number, detected: number, pageDate: string | null): Promise<boolean> {
+        return new Promise((resolve) => {
+            const modal = new Modal(this.app);
+            modal.titleEl.setText('Page Number Mismatch');
+            let chosen = false;
+
+            const content = modal.contentEl;
+            content.style.cssText = 'text-align: center; padding: 20px;';
+            content.createEl('div', { text: '🔢' }).style.cssText = 'font-size: 36px; margin-bottom: 10px;';
+            content.createEl('p', { text: `This page is numbered ${detected}, but it was saved as page ${expected} of ${notebook.name}.` });
+            if (pageDate) {
+                content.createEl('p', { text: `Date on the page: ${window.moment(pageDate).format('LL')}`, cls: 'setting-item-description' });
+            }
+            if (this.settings.autoIncrementPage && detected >= notebook.currentPage) {
+                content.createEl('p', {
+                    text: `Using the page's number also moves the notebook on to page ${detected + 1}.`,
+                    cls: 'setting-item-description'
+                });
             }
-            throw error; // Re-throw for batch processing to handle
+
+            const buttonContainer = content.createDiv();
+            buttonContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center; margin-top: 20px;';
+
+            const keepBtn = buttonContainer.createEl('button', { text: `Keep Page ${expected}` });
+            keepBtn.onclick = () => {
+                chosen = true;
+                modal.close();
+                resolve(false);
+            };
+
+            const useBtn = buttonContainer.createEl('button', { text: `Use Page ${detected}`, cls: 'mod-cta' });
+            useBtn.onclick = () => {
+                chosen = true;
+                modal.close();
+                resolve(true);
+            };
+
+            modal.onClose = () => {
+                if (!chosen) resolve(false);
+            };
+
+            modal.open();
+        });
+    }
+
+    async createCaptureNote(
+        imageFile: TFile,
+        selectedNotebook: Notebook | null,
+        pageNumber: number | null,
+        resultText: string,
+        detectedTags: string[],
+        locationTag: string | null,
+        title: string | null,
+        transaction?: ProcessingTransaction
+    ): Promise<TFile> {
+        let noteFolder = "";
+        if (selectedNotebook && this.settings.groupByNotebook) {
+            noteFolder = await this.getAndEnsureFolder(await this.getNotebookFolder(selectedNotebook.id));
+        } else {
+            noteFolder = await this.getAndEnsureFolder(this.settings.newNoteLocation);
+        }
+
+        const timestamp = window.moment().format('YYYY-MM-DD HH-mm-ss');
+
+        let noteFileName: string;
+        if (selectedNotebook && pageNumber) {
+            noteFileName = `Page ${pageNumber} - ${timestamp}.md`;
+        } else {
+            noteFileName = `Note ${timestamp}.md`;
+        }
+
+        const noteFilePath = noteFolder ? `${noteFolder}/${noteFileName}` : noteFileName;
+
+        // Build note content
+        let noteContent = '';
+
+        if (this.settings.enableDiscussionLinks) {
+            const encodedPath = encodeURIComponent(noteFilePath);
+            noteContent += `[${this.settings.discussionLinkText}](obsidian://gemini-discuss?file=${encodedPath})\n\n`;
+        }
+
+        noteContent += `![[${imageFile.path}]]\n`;
+
+        if (selectedNotebook && pageNumber) {
+            noteContent += `\n> **Notebook:** ${selectedNotebook.name} | **Page:** ${pageNumber}\n`;
+        } else if (!selectedNotebook) {
+            noteContent += `\n> **Source:** Loose paper / No notebook\n`;
         }
+
+        noteContent += `\n---\n${resultText}\n---`;
+
+        const newNoteFile = await this.app.vault.create(noteFilePath, noteContent);
+        transaction?.trackFile(newNoteFile);
+        await this.updateNoteProperties(imageFile, newNoteFile, detectedTags, locationTag, selectedNotebook?.id || null, pageNumber, title);
+        return newNoteFile;
     }
 
     async findRelatedNotesByTags(tags: string[]): Promise<string> {
@@ -2695,7 +7724,7 @@ ${response}
         return result;
     }
 
-    async processTriggersInText(text: string): Promise<string> {
+    async processTriggersInText(text: string, provider: ModelProvider = this.getProvider(), transaction?: ProcessingTransaction): Promise<string> {
         const triggers = this.detectTriggerWords(text);
         let processedTasks = false;
 
@@ -2705,7 +7734,7 @@ ${response}
         const tasksTrigger = triggers.find(t => t.action.keyword === 'Tasks');
         if (tasksTrigger && this.settings.enableTasksIntegration) {
             console.log('Tasks trigger found with content:', tasksTrigger.content);
-            const tasksAdded = await this.addTasksToTasksNote(tasksTrigger.content);
+            const tasksAdded = await this.addTasksToTasksNote(tasksTrigger.content, transaction);
             if (tasksAdded > 0) {
                 processedTasks = true;
                 new Notice(`Added ${tasksAdded} tasks to ${this.settings.tasksNotePath}`);
@@ -2734,7 +7763,7 @@ ${response}
             }
 
             new Notice(`Processing trigger: ${trigger.trigger}...`);
-            const response = await this.processTriggerWithGemini(trigger);
+            const response = await this.processTriggerWithGemini(trigger, provider);
             if (response) triggerResponses.push(response);
         }
 
@@ -2744,7 +7773,7 @@ ${response}
         return text;
     }
 
-    async addTasksToTasksNote(tasksContent: string): Promise<number> {
+    async addTasksToTasksNote(tasksContent: string, transaction?: ProcessingTransaction): Promise<number> {
         try {
             // Parse the tasks from the content
             const tasks = this.parseTasksForObsidianTasks(tasksContent);
@@ -2768,6 +7797,7 @@ ${response}
                 const initialContent = `# Tasks\n\n${this.settings.tasksSectionHeading}\n`;
                 console.log(`Creating tasks file with initial content`);
                 tasksFile = await this.app.vault.create(this.settings.tasksNotePath, initialContent);
+                if (tasksFile instanceof TFile) transaction?.trackFile(tasksFile);
             }
 
             if (!(tasksFile instanceof TFile)) {
@@ -2804,6 +7834,11 @@ ${response}
             await this.app.vault.modify(tasksFile, content);
             console.log(`Successfully added ${tasks.length} tasks to ${this.settings.tasksNotePath}`);
 
+            const file = tasksFile;
+            transaction?.onRollback(`removed ${tasks.length} tasks from ${file.name}`, async () => {
+                await this.app.vault.process(file, (current) => current.replace(tasksBlock, ''));
+            });
+
             return tasks.length;
         } catch (error) {
             console.error('Error adding tasks to tasks note:', error);
@@ -3011,7 +8046,7 @@ ${response}
         return [];
     }
 
-    async updateNoteProperties(imageFile: TFile, noteFile: TFile, detectedTags: string[] = [], locationTag: string | null, notebookId: string | null, pageNumber: number | null) {
+    async updateNoteProperties(imageFile: TFile, noteFile: TFile, detectedTags: string[] = [], locationTag: string | null, notebookId: string | null, pageNumber: number | null, title: string | null = null) {
         const currentYear = new Date().getFullYear();
         const customTags = this.settings.customTags.split(',').map(tag => tag.trim()).filter(tag => tag);
         const notebook = notebookId ? this.settings.notebooks.find(n => n.id === notebookId) : null;
@@ -3022,7 +8057,7 @@ ${response}
 
             const tagsToAdd = [`notes${currentYear}`, ...customTags, ...detectedTags];
             if (locationTag) tagsToAdd.push(locationTag);
-            if (notebook) tagsToAdd.push(`notebook-${notebook.name.toLowerCase().replace(/\s+/g, '-')}`);
+            if (notebook) tagsToAdd.push(getNotebookTag(notebook.name));
 
             for (const tag of tagsToAdd) {
                 if (tag && !frontmatter.tags.includes(tag)) {
@@ -3035,6 +8070,8 @@ ${response}
             // Add the created date
             frontmatter.created = window.moment().format('YYYY-MM-DD');
 
+            if (title) frontmatter.title = title;
+
             if (notebook) {
                 frontmatter.notebook = notebook.name;
                 frontmatter.notebook_id = notebook.id;
@@ -3146,13 +8183,263 @@ ${response}
         return processedTasks.join('\n');
     }
 
-    async callGeminiAPI(imageData: ArrayBuffer): Promise<string | null> {
-        const apiKey = this.settings.geminiApiKey;
-        const model = this.settings.selectedModel;
-        const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+    // Run an image through Gemini using structured output when enabled, falling back to the markdown prompt
+    async processImageWithGemini(imageData: ArrayBuffer, notebook: Notebook | null = null, options: ImageRequestOptions = {}): Promise<ProcessedNote> {
+        const provider = this.getProvider(notebook);
+
+        if (!options.preprocessed) {
+            const preprocessed = await this.preprocessImage(imageData, options.mimeType);
+            imageData = preprocessed.data;
+            options = { ...options, mimeType: preprocessed.mimeType };
+        }
+
+        const prepared = await this.prepareImageForProvider(imageData, provider, options.mimeType);
+        imageData = prepared.data;
+        options = { ...options, mimeType: prepared.mimeType };
+
+        if (this.settings.useStructuredOutput) {
+            try {
+                return this.toProcessedNote(await this.callGeminiStructured(imageData, provider, options));
+            } catch (error) {
+                if (!(error instanceof GeminiMalformedResponseError)) throw error;
+                console.warn('Structured response could not be read, falling back to markdown prompt:', error);
+            }
+        }
+
+        const resultText = await this.callGeminiAPI(imageData, provider, options);
+        if (!resultText) throw new Error("API call returned no text.");
+        const pageInfo = this.extractPageInfo(resultText);
+        return {
+            markdown: pageInfo.markdown,
+            tags: this.parseDetectedTags(resultText),
+            title: null,
+            pageNumber: pageInfo.pageNumber,
+            pageDate: pageInfo.pageDate
+        };
+    }
+
+    // Read and remove the Page Info section asked for by MARKDOWN_PAGE_INFO_PROMPT; it ends up in properties, not the note
+    extractPageInfo(responseText: string): { markdown: string; pageNumber: number | null; pageDate: string | null } {
+        const match = responseText.match(/\n*### Page Info\s*\n([\s\S]*?)(?=\n###|$)/);
+        if (!match) return { markdown: responseText, pageNumber: null, pageDate: null };
+
+        const pageMatch = match[1].match(/Page:\s*(\d+)/i);
+        const dateMatch = match[1].match(/Date:\s*(\d{4}-\d{2}-\d{2})/i);
+        const pageDate = dateMatch && window.moment(dateMatch[1], 'YYYY-MM-DD', true).isValid() ? dateMatch[1] : null;
+        return {
+            markdown: responseText.replace(match[0], ''),
+            pageNumber: pageMatch ? parseInt(pageMatch[1]) || null : null,
+            pageDate
+        };
+    }
+
+    // Upright, downscale and re-encode a photo before upload so phone pictures aren't sent at full size.
+    // Returns the input unchanged when preprocessing is off, for PDFs, or when it wouldn't make the file smaller.
+    async preprocessImage(imageData: ArrayBuffer, declaredMimeType?: string): Promise<{ data: ArrayBuffer; mimeType: string }> {
+        const mimeType = sniffMimeType(imageData) || declaredMimeType || 'image/jpeg';
+        const settings = this.settings.imagePreprocessing;
+        if (!settings.enabled || !mimeType.startsWith('image/') || mimeType === 'image/gif' || !canDecodeImage(mimeType)) {
+            return { data: imageData, mimeType };
+        }
+
+        try {
+            const canvas = await drawImageToCanvas(imageData, mimeType, settings.maxEdge);
+            const rotated = mimeType === 'image/jpeg' && readJpegOrientation(imageData) !== 1;
+            const data = await canvasToArrayBuffer(canvas, 'image/jpeg', settings.quality);
+
+            // Keep a small, upright original rather than re-encoding it bigger
+            if (!rotated && data.byteLength >= imageData.byteLength) {
+                return { data: imageData, mimeType };
+            }
+
+            console.log(`Preprocessed image: ${Math.round(imageData.byteLength / 1024)} KB -> ${Math.round(data.byteLength / 1024)} KB (${canvas.width}x${canvas.height})`);
+            return { data, mimeType: 'image/jpeg' };
+        } catch (error) {
+            // A file that fails to decode is sent as it is; prepareImageForProvider reports it if it must be converted
+            console.warn('Image preprocessing skipped:', error);
+            return { data: imageData, mimeType };
+        }
+    }
+
+    // Send the file's real type, converting to PNG when the provider can't read it directly
+    async prepareImageForProvider(imageData: ArrayBuffer, provider: ModelProvider, declaredMimeType?: string): Promise<{ data: ArrayBuffer; mimeType: string }> {
+        const mimeType = sniffMimeType(imageData) || declaredMimeType || 'image/jpeg';
+        if (provider.supportedMimeTypes.includes(mimeType)) {
+            return { data: imageData, mimeType };
+        }
+
+        if (mimeType === 'application/pdf') {
+            throw new Error(`${provider.name} can't read PDFs directly. Use the rasterize PDF mode instead.`);
+        }
+        if (!canDecodeImage(mimeType)) {
+            const format = mimeType === 'image/tiff' ? 'TIFF' : 'HEIC';
+            const hint = format === 'HEIC' ? ', or use Gemini, which reads HEIC directly' : '';
+            throw new Error(`${provider.name} doesn't accept ${format} images and they can't be converted on this device. Convert the file to JPEG or PNG first${hint}.`);
+        }
+
+        console.log(`${provider.name} doesn't accept ${mimeType}, converting to PNG`);
+        return { data: await convertImageToPng(imageData, mimeType), mimeType: 'image/png' };
+    }
+
+    // Send a whole PDF once and get a note for each of its pages. Gemini only.
+    async processPdfWithGemini(pdfData: ArrayBuffer, notebook: Notebook | null, pageCount: number, options: ImageRequestOptions = {}): Promise<ProcessedNote[]> {
+        const provider = this.getProvider(notebook);
+        const instructions = `The attached PDF has ${pageCount} pages. Respond with one entry in the pages array for each page, in order; the fields below describe each entry, and each page is treated as a separate note.`;
+        const responseText = await provider.generate({
+            prompt: this.buildStructuredPrompt({ ...options, instructions }),
+            image: { mimeType: 'application/pdf', data: arrayBufferToBase64(pdfData) },
+            responseSchema: {
+                type: 'OBJECT',
+                properties: { pages: { type: 'ARRAY', items: buildStructuredNoteSchema(this.settings.enableDeepResearch, this.settings.detectPageInfo) } },
+                required: ['pages']
+            }
+        });
+
+        let data: { pages?: unknown };
+        try {
+            data = JSON.parse(responseText);
+        } catch (error) {
+            throw new GeminiMalformedResponseError('Structured response was not valid JSON.');
+        }
+        if (!Array.isArray(data?.pages) || data.pages.length !== pageCount) {
+            throw new GeminiMalformedResponseError(`Expected ${pageCount} pages in the response, got ${Array.isArray(data?.pages) ? data.pages.length : 'none'}.`);
+        }
+        return data.pages.map(page => this.toProcessedNote(this.readStructuredNote(page)));
+    }
+
+    private toProcessedNote(result: StructuredNoteResult): ProcessedNote {
+        return {
+            markdown: this.renderStructuredNote(result),
+            tags: result.tags,
+            title: result.title || null,
+            pageNumber: result.pageNumber || null,
+            pageDate: result.pageDate || null
+        };
+    }
+
+    private buildStructuredPrompt(options: ImageRequestOptions): string {
+        let promptText = options.instructions ? `${options.instructions}\n\n${STRUCTURED_GEMINI_PROMPT}` : STRUCTURED_GEMINI_PROMPT;
+        // The structured prompt describes the fields to fill in, so a custom prompt adds to it rather than replacing it
+        if (options.prompt) {
+            promptText += `\n\nAdditional instructions:\n${options.prompt}`;
+        }
+        if (this.settings.enableDeepResearch) {
+            promptText += STRUCTURED_RESEARCH_PROMPT;
+        }
+        if (this.settings.detectPageInfo) {
+            promptText += STRUCTURED_PAGE_INFO_PROMPT;
+        }
+        promptText += `\n\nToday's date is ${window.moment().format('YYYY-MM-DD (dddd)')}.`;
+        return promptText;
+    }
+
+    async callGeminiStructured(imageData: ArrayBuffer, provider: ModelProvider = this.getProvider(), options: ImageRequestOptions = {}): Promise<StructuredNoteResult> {
+        const responseText = await provider.generate({
+            prompt: this.buildStructuredPrompt(options),
+            image: { mimeType: options.mimeType || 'image/jpeg', data: arrayBufferToBase64(imageData) },
+            responseSchema: buildStructuredNoteSchema(this.settings.enableDeepResearch, this.settings.detectPageInfo)
+        });
+        return this.parseStructuredNoteResult(responseText);
+    }
+
+    parseStructuredNoteResult(responseText: string): StructuredNoteResult {
+        let data: unknown;
+        try {
+            data = JSON.parse(responseText);
+        } catch (error) {
+            throw new GeminiMalformedResponseError('Structured response was not valid JSON.');
+        }
+        return this.readStructuredNote(data);
+    }
+
+    // Check and tidy one note object from a structured response
+    readStructuredNote(data: unknown): StructuredNoteResult {
+        const note = jsonRecord(data);
+        if (!note || typeof note.transcript !== 'string') {
+            throw new GeminiMalformedResponseError('Structured response is missing a transcript.');
+        }
+
+        const asText = (value: unknown): string | null => typeof value === 'string' && value.trim() ? value.trim() : null;
+        const asStrings = (value: unknown): string[] =>
+            Array.isArray(value) ? value.map(asText).filter((v): v is string => v !== null) : [];
+        const asRecords = (value: unknown): Record<string, unknown>[] =>
+            Array.isArray(value) ? value.map(jsonRecord).filter((v): v is Record<string, unknown> => v !== null) : [];
+        const priorities: StructuredTask['priority'][] = ['high', 'medium', 'low', 'none'];
+
+        const tasks: StructuredTask[] = [];
+        for (const task of asRecords(note.tasks)) {
+            const text = asText(task.text);
+            if (!text) continue;
+            tasks.push({
+                text,
+                priority: priorities.find(priority => priority === task.priority) || 'none',
+                due: asText(task.due),
+                scheduled: asText(task.scheduled),
+                start: asText(task.start)
+            });
+        }
+
+        const research: StructuredResearchItem[] = [];
+        for (const item of asRecords(note.research)) {
+            if (typeof item.name !== 'string') continue;
+            research.push({ name: item.name, description: asText(item.description) || '', url: asText(item.url) });
+        }
+
+        const pageNumber = note.page_number;
+        const pageDate = note.page_date;
+        return {
+            title: asText(note.title) || '',
+            transcript: note.transcript.trim(),
+            summary: asStrings(note.summary),
+            tasks,
+            tags: asStrings(note.tags).map(tag => tag.replace(/^#/, '')),
+            research,
+            pageNumber: typeof pageNumber === 'number' && Number.isInteger(pageNumber) && pageNumber > 0 ? pageNumber : null,
+            pageDate: typeof pageDate === 'string' && window.moment(pageDate, 'YYYY-MM-DD', true).isValid() ? pageDate : null
+        };
+    }
+
+    // Build note markdown from a structured result, using the same sections as the markdown prompt
+    renderStructuredNote(result: StructuredNoteResult): string {
+        const priorityEmojis: Record<string, string> = { high: '⏫', medium: '🔼', low: '🔽', none: '' };
+        const defaultTags = this.settings.defaultTaskTags
+            ? this.settings.defaultTaskTags.split(',').map(t => t.trim()).filter(t => t).map(t => t.startsWith('#') ? t : '#' + t)
+            : [];
+
+        const tasks = result.tasks.map(task => {
+            const dates: { [key: string]: string } = {};
+            for (const key of ['due', 'scheduled', 'start'] as const) {
+                const value = task[key];
+                const parsed = value ? this.parseNaturalDate(value) : null;
+                if (parsed) dates[key] = parsed;
+            }
+            return this.formatTaskForObsidianTasks({
+                text: task.text,
+                priority: priorityEmojis[task.priority],
+                tags: defaultTags,
+                dates: Object.keys(dates).length > 0 ? dates : undefined
+            });
+        });
+
+        let markdown = `### Transcript\n${result.transcript}\n\n`;
+        markdown += `### Summary\n${result.summary.length > 0 ? result.summary.map(point => `- ${point}`).join('\n') : 'None identified.'}\n\n`;
+        markdown += `### Tasks\n${tasks.length > 0 ? tasks.join('\n') : 'None identified.'}\n\n`;
+        markdown += `### Detected Tags\n${result.tags.length > 0 ? result.tags.join(', ') : 'None identified.'}`;
+
+        if (this.settings.enableDeepResearch) {
+            const research = result.research || [];
+            const items = research.map(item => `- **${item.name}**: ${item.description}${item.url ? ` ([link](${item.url}))` : ''}`);
+            markdown += `\n\n### Deep Research\n${items.length > 0 ? items.join('\n') : 'None identified.'}`;
+        }
+
+        return markdown;
+    }
+
+    async callGeminiAPI(imageData: ArrayBuffer, provider: ModelProvider = this.getProvider(), options: ImageRequestOptions = {}): Promise<string | null> {
         const imageBase64 = arrayBufferToBase64(imageData);
 
-        let promptText = this.settings.geminiPrompt;
+        const basePrompt = options.prompt || this.settings.geminiPrompt;
+        let promptText = options.instructions ? `${options.instructions}\n\n${basePrompt}` : basePrompt;
 
         if (this.settings.enableDeepResearch) {
             promptText += `
@@ -3161,27 +8448,28 @@ ${response}
 [Also, identify any product names, technologies, or key concepts mentioned in the note. For each item, provide a brief, one-sentence description and a relevant URL (like an official website or Wikipedia page) for more information. Format each item as a bullet point. If none are found, write "None identified."]`;
         }
 
-        const requestBody = { "contents": [{ "parts": [{ "text": promptText }, { "inline_data": { "mime_type": "image/jpeg", "data": imageBase64 } }] }] };
+        if (this.settings.detectPageInfo) {
+            promptText += MARKDOWN_PAGE_INFO_PROMPT;
+        }
 
         try {
-            const response = await requestUrl({ url: API_URL, method: 'POST', contentType: 'application/json', body: JSON.stringify(requestBody) });
-            const geminiResponse = response.json;
-            if (geminiResponse.candidates && geminiResponse.candidates[0]?.content?.parts?.[0]?.text) {
-                let responseText = geminiResponse.candidates[0].content.parts[0].text;
-
-                // Process the Tasks section to add Obsidian Tasks formatting
-                const tasksRegex = /### Tasks\s*\n([\s\S]*?)(?=\n###|$)/;
-                const tasksMatch = responseText.match(tasksRegex);
-                if (tasksMatch && tasksMatch[1]) {
-                    console.log('Found Tasks section, processing...');
-                    const processedTasks = this.processExtractedTasks(tasksMatch[1]);
-                    responseText = responseText.replace(tasksMatch[0], `### Tasks\n${processedTasks}`);
-                }
-
-                return responseText;
-            } else { throw new Error("Unexpected response structure from Gemini API"); }
+            let responseText = await provider.generate({
+                prompt: promptText,
+                image: { mimeType: options.mimeType || 'image/jpeg', data: imageBase64 }
+            });
+
+            // Process the Tasks section to add Obsidian Tasks formatting
+            const tasksRegex = /### Tasks\s*\n([\s\S]*?)(?=\n###|$)/;
+            const tasksMatch = responseText.match(tasksRegex);
+            if (tasksMatch && tasksMatch[1]) {
+                console.log('Found Tasks section, processing...');
+                const processedTasks = this.processExtractedTasks(tasksMatch[1]);
+                responseText = responseText.replace(tasksMatch[0], `### Tasks\n${processedTasks}`);
+            }
+
+            return responseText;
         } catch (error) {
-            console.error("Gemini API call failed:", error);
+            console.error(`${provider.name} call failed:`, error);
             throw error;
         }
     }
@@ -3215,7 +8503,7 @@ ${response}
         return triggers;
     }
 
-    async processTriggerWithGemini(trigger: { trigger: string, content: string, action: TriggerAction }): Promise<string> {
+    async processTriggerWithGemini(trigger: { trigger: string, content: string, action: TriggerAction }, provider: ModelProvider = this.getProvider()): Promise<string> {
         const lengthInstructions: Record<string, string> = {
             'brief': 'Provide a concise response, 2-3 sentences per item.',
             'moderate': 'Provide a balanced response, 1-2 paragraphs per item.',
@@ -3243,19 +8531,13 @@ ${response}
             'related': 'Finding related notes by tags...' // This is handled specially
         };
         const prompt = prompts[trigger.action.action] || `Process: ${trigger.content}`;
-        const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${this.settings.selectedModel}:generateContent?key=${this.settings.geminiApiKey}`;
-        const requestBody = { "contents": [{ "parts": [{ "text": prompt }] }] };
         try {
-            const response = await requestUrl({ url: API_URL, method: 'POST', contentType: 'application/json', body: JSON.stringify(requestBody) });
-            const geminiResponse = response.json;
-            if (geminiResponse.candidates && geminiResponse.candidates[0]?.content?.parts?.[0]?.text) {
-                return `### ${trigger.trigger} Results\n${geminiResponse.candidates[0].content.parts[0].text}`;
-            }
+            const responseText = await provider.generate({ prompt });
+            return `### ${trigger.trigger} Results\n${responseText}`;
         } catch (error) {
             console.error(`Failed to process trigger "${trigger.trigger}":`, error);
-            return `### ${trigger.trigger} - Processing Failed\nCould not process this trigger action.`;
+            return `### ${trigger.trigger} - Processing Failed\nCould not process this trigger action: ${describeGeminiError(error)}`;
         }
-        return '';
     }
 }
 
@@ -3301,6 +8583,19 @@ class GeminiSettingTab extends PluginSettingTab {
         });
 
         // Main Settings
+        new Setting(containerEl)
+            .setName('Model Provider')
+            .setDesc('Which model processes notes, chat and trigger words. Notebooks can override this below.')
+            .addDropdown(dropdown => dropdown
+                .addOption('gemini', 'Google Gemini')
+                .addOption('openai-compatible', 'OpenAI-compatible endpoint (Ollama, LM Studio, ...)')
+                .setValue(this.plugin.settings.modelProvider)
+                .onChange(async (value) => {
+                    this.plugin.settings.modelProvider = value as ModelProviderId;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
         new Setting(containerEl)
             .setName('Gemini API Key')
             .setDesc('Your Google AI Studio API key for Gemini')
@@ -3316,7 +8611,7 @@ class GeminiSettingTab extends PluginSettingTab {
         new Setting(containerEl)
             .addButton(button => button
                 .setButtonText("Test Connection")
-                .setTooltip("Tests if your API key and selected model are working")
+                .setTooltip("Tests if the selected provider, key and model are working")
                 .onClick(() => {
                     this.plugin.testApiKey();
                 }));
@@ -3332,15 +8627,82 @@ class GeminiSettingTab extends PluginSettingTab {
                     .addOption('gemini-2.0-flash-001', 'Gemini 2.0 Flash')
                     .setValue(this.plugin.settings.selectedModel)
                     .onChange(async (value) => {
-                        this.plugin.settings.selectedModel = value;
+                        this.plugin.settings.selectedModel = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('API Retries')
+            .setDesc('How many times to retry a model request after a rate limit (429), server error or network failure. Retries use exponential backoff and honor Retry-After.')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(this.plugin.settings.apiMaxRetries.toString())
+                .onChange(async (value) => {
+                    const retries = parseInt(value);
+                    if (!isNaN(retries) && retries >= 0) {
+                        this.plugin.settings.apiMaxRetries = retries;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        const openAIInUse = this.plugin.settings.modelProvider === 'openai-compatible' ||
+            this.plugin.settings.notebooks.some(n => n.provider === 'openai-compatible');
+        if (openAIInUse) {
+            containerEl.createEl('h3', { text: 'OpenAI-compatible Endpoint' });
+            containerEl.createEl('p', {
+                text: 'A self-hosted or third-party server that implements /chat/completions. Use a vision-capable model for note images.',
+                cls: 'setting-item-description'
+            });
+
+            new Setting(containerEl)
+                .setName('Base URL')
+                .setDesc('Everything before /chat/completions, e.g. http://localhost:11434/v1 for Ollama')
+                .addText(text => text
+                    .setPlaceholder('http://localhost:11434/v1')
+                    .setValue(this.plugin.settings.openAICompatible.baseUrl)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openAICompatible.baseUrl = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Model')
+                .setDesc('Model name as the server knows it, e.g. llava or qwen2.5vl')
+                .addText(text => text
+                    .setPlaceholder('llava')
+                    .setValue(this.plugin.settings.openAICompatible.model)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openAICompatible.model = value.trim();
                         await this.plugin.saveSettings();
-                    });
-            });
+                    }));
+
+            new Setting(containerEl)
+                .setName('API Key')
+                .setDesc('Optional. Sent as a Bearer token.')
+                .addText(text => text
+                    .setPlaceholder('Leave empty for local servers')
+                    .setValue(this.plugin.settings.openAICompatible.apiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openAICompatible.apiKey = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
 
 
         // PROMPT CONFIGURATION SECTION - SIMPLIFIED
         containerEl.createEl('h2', { text: 'Prompt Configuration' });
 
+        new Setting(containerEl)
+            .setName('Structured Output (JSON)')
+            .setDesc('Ask Gemini for a typed JSON response (title, transcript, summary, tasks with priority and dates, tags) instead of parsing markdown sections. The prompt below is used when this is off, or as a fallback if the JSON response cannot be read.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useStructuredOutput)
+                .onChange(async (value) => {
+                    this.plugin.settings.useStructuredOutput = value;
+                    await this.plugin.saveSettings();
+                }));
+
         // Simple setting with just the text area
         new Setting(containerEl)
             .setName('Gemini Prompt')
@@ -3390,10 +8752,26 @@ class GeminiSettingTab extends PluginSettingTab {
             .setName('Auto-increment Page Numbers').setDesc('Automatically increment page number after each capture')
             .addToggle(toggle => toggle.setValue(this.plugin.settings.autoIncrementPage)
                 .onChange(async (value) => { this.plugin.settings.autoIncrementPage = value; await this.plugin.saveSettings(); }));
+        new Setting(containerEl)
+            .setName('Read Page Numbers From Pages').setDesc('Ask the model for the page number and date written on the page. When the number differs from the expected page you are asked which to use; the date is saved as page_date.')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.detectPageInfo)
+                .onChange(async (value) => { this.plugin.settings.detectPageInfo = value; await this.plugin.saveSettings(); }));
         new Setting(containerEl)
             .setName('Notebook Folder Pattern').setDesc('Folder structure for notebook organization. Use {notebook} for notebook name.')
             .addText(text => text.setPlaceholder('Notebooks/{notebook}/YYYY-MM').setValue(this.plugin.settings.notebookFolderPattern)
                 .onChange(async (value) => { this.plugin.settings.notebookFolderPattern = value; await this.plugin.saveSettings(); }));
+        new Setting(containerEl)
+            .setName('Notebook Index Notes').setDesc('Fill each notebook\'s note with its details, a table of its pages with thumbnails and summaries, and any missing page numbers.')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.enableNotebookIndex)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableNotebookIndex = value;
+                    await this.plugin.saveSettings();
+                    if (value) await this.plugin.notebookIndexer.refreshAll();
+                }));
+        new Setting(containerEl)
+            .setName('Notebook Note Folder').setDesc('Where new notebook notes are created. Each notebook is stored as a note with its details in the properties; existing ones stay wherever you move them.')
+            .addText(text => text.setPlaceholder('Notebooks').setValue(this.plugin.settings.notebookIndexFolder)
+                .onChange(async (value) => { this.plugin.settings.notebookIndexFolder = value; await this.plugin.saveSettings(); }));
 
         containerEl.createEl('h3', { text: 'Manage Notebooks' });
         containerEl.createEl('p', { text: 'Add and manage your physical notebooks.', cls: 'setting-item-description' });
@@ -3404,29 +8782,61 @@ class GeminiSettingTab extends PluginSettingTab {
                     const newNotebook = this.plugin.createNotebook();
                     this.plugin.settings.notebooks.push(newNotebook);
                     await this.plugin.saveSettings();
+                    this.plugin.notebookIndexer.schedule(newNotebook.id);
                     this.display();
                 }));
 
-        this.plugin.settings.notebooks.forEach((notebook, index) => {
+        this.plugin.settings.notebooks.forEach((notebook) => {
             const setting = new Setting(containerEl)
                 .setName(notebook.name).setDesc(`Status: ${notebook.status} | Current Page: ${notebook.currentPage}${notebook.totalPages ? `/${notebook.totalPages}` : ''}`);
-            setting.addText(text => text.setPlaceholder('Notebook name').setValue(notebook.name)
-                .onChange(async (value) => { notebook.name = value; await this.plugin.saveSettings(); }));
+            // The name is the notebook note's file name, so it's only saved once the field is left or Enter is pressed
+            setting.addText(text => {
+                text.setPlaceholder('Notebook name').setValue(notebook.name);
+                text.inputEl.addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter') text.inputEl.blur();
+                });
+                text.inputEl.addEventListener('blur', async () => {
+                    const value = text.getValue().trim();
+                    if (!value) {
+                        new Notice('A notebook needs a name');
+                        text.setValue(notebook.name);
+                        return;
+                    }
+                    if (value === notebook.name) return;
+                    notebook.name = value;
+                    setting.setName(value);
+                    await this.plugin.saveSettings();
+                    this.plugin.notebookIndexer.schedule(notebook.id);
+                });
+            });
             setting.addText(text => text.setPlaceholder('Page').setValue(notebook.currentPage.toString())
                 .onChange(async (value) => {
                     const pageNum = parseInt(value);
-                    if (!isNaN(pageNum) && pageNum > 0) { notebook.currentPage = pageNum; await this.plugin.saveSettings(); }
+                    if (!isNaN(pageNum) && pageNum > 0) { notebook.currentPage = pageNum; await this.plugin.saveSettings(); this.plugin.notebookIndexer.schedule(notebook.id); }
                 })).setTooltip('Current page number');
             setting.addDropdown(dropdown => dropdown
                 .addOption('active', 'Active').addOption('completed', 'Completed').addOption('archived', 'Archived')
                 .setValue(notebook.status).onChange(async (value) => {
                     notebook.status = value as 'active' | 'completed' | 'archived';
+                    await this.plugin.saveSettings(); this.plugin.notebookIndexer.schedule(notebook.id); this.display();
+                }));
+            setting.addDropdown(dropdown => dropdown
+                .addOption('', 'Default provider').addOption('gemini', 'Gemini').addOption('openai-compatible', 'OpenAI-compatible')
+                .setValue(notebook.provider || '').onChange(async (value) => {
+                    notebook.provider = (value || undefined) as ModelProviderId | undefined;
                     await this.plugin.saveSettings(); this.display();
                 }));
+            setting.addButton(button => button.setButtonText('Audit')
+                .onClick(() => this.plugin.showNotebookAuditModal(notebook)));
             setting.addButton(button => button.setButtonText('Delete').setWarning()
                 .onClick(async () => {
-                    if (confirm(`Delete notebook "${notebook.name}"? This won't delete existing notes.`)) {
-                        this.plugin.settings.notebooks.splice(index, 1);
+                    const pageCount = this.plugin.notebookIndexer.getPages(notebook.id).length;
+                    const pagesNote = pageCount > 0
+                        ? ` Its ${pageCount} page note${pageCount === 1 ? ' is' : 's are'} kept but will no longer belong to a notebook; merge it into another notebook instead to keep them together.`
+                        : '';
+                    if (confirm(`Delete notebook "${notebook.name}"? Its notebook note is moved to the trash.${pagesNote}`)) {
+                        await this.plugin.detachPages(notebook);
+                        await this.plugin.notebookStore.delete(notebook);
                         await this.plugin.saveSettings(); this.display();
                     }
                 }));
@@ -3451,6 +8861,21 @@ class GeminiSettingTab extends PluginSettingTab {
             .setName('Enable Deep Research').setDesc('Gemini will also research topics found in the note.')
             .addToggle(toggle => toggle.setValue(this.plugin.settings.enableDeepResearch)
                 .onChange(async (value) => { this.plugin.settings.enableDeepResearch = value; await this.plugin.saveSettings(); }));
+        new Setting(containerEl)
+            .setName('Concurrent Jobs').setDesc('How many images are sent to the model at once. Captures, batch runs and monitored files all share this queue, which carries on after a restart.')
+            .addText(text => text.setPlaceholder('1').setValue(this.plugin.settings.jobConcurrency.toString())
+                .onChange(async (value) => {
+                    const concurrency = parseInt(value);
+                    if (!isNaN(concurrency) && concurrency >= 1 && concurrency <= 8) {
+                        this.plugin.settings.jobConcurrency = concurrency;
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .addButton(button => button.setButtonText('Show Queue').onClick(() => this.plugin.showJobQueueModal()));
+        new Setting(containerEl)
+            .setName('Review Pages Before Processing').setDesc('Capture a whole session first, then reorder, rotate, retake or delete pages and set page numbers before anything is sent.')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.reviewBeforeProcessing)
+                .onChange(async (value) => { this.plugin.settings.reviewBeforeProcessing = value; await this.plugin.saveSettings(); }));
         new Setting(containerEl)
             .setName('Enable Location Tagging').setDesc('Extract location from photo EXIF data and add as a country tag.')
             .addToggle(toggle => toggle.setValue(this.plugin.settings.enableLocationTagging)
@@ -3460,6 +8885,34 @@ class GeminiSettingTab extends PluginSettingTab {
             .addToggle(toggle => toggle.setValue(this.plugin.settings.fallbackToCurrentLocation)
                 .onChange(async (value) => { this.plugin.settings.fallbackToCurrentLocation = value; await this.plugin.saveSettings(); }));
 
+        // Image Preprocessing
+        containerEl.createEl('h3', { text: 'Image Preprocessing' });
+        new Setting(containerEl)
+            .setName('Resize Images Before Upload').setDesc('Turn photos upright, shrink them and re-encode as JPEG before sending them to the model. Much faster on mobile data.')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.imagePreprocessing.enabled)
+                .onChange(async (value) => { this.plugin.settings.imagePreprocessing.enabled = value; await this.plugin.saveSettings(); this.display(); }));
+
+        if (this.plugin.settings.imagePreprocessing.enabled) {
+            new Setting(containerEl)
+                .setName('Longest Edge').setDesc('Maximum width or height in pixels. Around 2000 keeps handwriting legible.')
+                .addText(text => text.setPlaceholder('2048').setValue(this.plugin.settings.imagePreprocessing.maxEdge.toString())
+                    .onChange(async (value) => {
+                        const edge = parseInt(value);
+                        if (!isNaN(edge) && edge >= 256) {
+                            this.plugin.settings.imagePreprocessing.maxEdge = edge;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+            new Setting(containerEl)
+                .setName('JPEG Quality').setDesc('Lower values give smaller uploads at the cost of detail.')
+                .addSlider(slider => slider.setLimits(50, 100, 5).setValue(Math.round(this.plugin.settings.imagePreprocessing.quality * 100)).setDynamicTooltip()
+                    .onChange(async (value) => { this.plugin.settings.imagePreprocessing.quality = value / 100; await this.plugin.saveSettings(); }));
+            new Setting(containerEl)
+                .setName('Keep Original as Attachment').setDesc('Save the untouched photo in the vault and only resize the copy that is uploaded. When off, the resized image is saved instead.')
+                .addToggle(toggle => toggle.setValue(this.plugin.settings.imagePreprocessing.keepOriginal)
+                    .onChange(async (value) => { this.plugin.settings.imagePreprocessing.keepOriginal = value; await this.plugin.saveSettings(); }));
+        }
+
         // Discussion Settings
         containerEl.createEl('h2', { text: 'Discussion Settings' });
         new Setting(containerEl)
@@ -3473,6 +8926,16 @@ class GeminiSettingTab extends PluginSettingTab {
                     this.display();
                 }));
 
+        new Setting(containerEl)
+            .setName('Stream Chat Responses')
+            .setDesc('Show Gemini Chat answers as they are generated, with a Stop button to cut them short')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableChatStreaming)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableChatStreaming = value;
+                    await this.plugin.saveSettings();
+                }));
+
         if (this.plugin.settings.enableDiscussionLinks) {
             new Setting(containerEl)
                 .setName('Discussion Link Text')
@@ -3621,6 +9084,21 @@ class GeminiSettingTab extends PluginSettingTab {
             text: '💡 Tip: If camera access fails on Android, use Gallery mode.',
             cls: 'setting-item-description'
         });
+        new Setting(containerEl)
+            .setName('Document Scanner').setDesc('After a direct camera capture, crop to the page and flatten it before processing.')
+            .addToggle(toggle => toggle.setValue(this.plugin.settings.enableDocumentScanner)
+                .onChange(async (value) => { this.plugin.settings.enableDocumentScanner = value; await this.plugin.saveSettings(); }));
+        new Setting(containerEl)
+            .setName('Default Scan Filter').setDesc('Starting filter in the scanner; it can be changed for each page.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Original colour')
+                .addOption('enhance', 'Enhanced contrast')
+                .addOption('binarize', 'Black and white')
+                .setValue(this.plugin.settings.scannerFilter)
+                .onChange(async (value) => {
+                    this.plugin.settings.scannerFilter = value as ScanFilter;
+                    await this.plugin.saveSettings();
+                }));
 
         // FOLDER MONITORING SECTION
         containerEl.createEl('h2', { text: 'Automatic Folder Monitoring' });
@@ -3652,135 +9130,217 @@ class GeminiSettingTab extends PluginSettingTab {
 
         if (this.plugin.settings.folderMonitor.enabled) {
             new Setting(containerEl)
-                .setName('Watch Folder')
-                .setDesc('Folder to monitor for new files (relative to vault root)')
+                .setName('File Stability Delay')
+                .setDesc('Only process a file once its size has stopped changing for this many seconds, so files still being synced are left alone')
                 .addText(text => text
-                    .setPlaceholder('Inbox')
-                    .setValue(this.plugin.settings.folderMonitor.watchFolder)
+                    .setPlaceholder('3')
+                    .setValue(this.plugin.settings.folderMonitor.stabilitySeconds.toString())
+                    .onChange(async (value) => {
+                        const seconds = parseInt(value);
+                        if (!isNaN(seconds) && seconds >= 1) {
+                            this.plugin.settings.folderMonitor.stabilitySeconds = seconds;
+                            await this.plugin.saveSettings();
+                        }
+                    }));
+
+            new Setting(containerEl)
+                .setName('Polling Fallback')
+                .setDesc('New files are picked up as soon as they appear in the vault. Also scan the folders periodically in case an event is missed.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.folderMonitor.usePolling)
                     .onChange(async (value) => {
-                        this.plugin.settings.folderMonitor.watchFolder = value;
+                        this.plugin.settings.folderMonitor.usePolling = value;
                         await this.plugin.saveSettings();
                         this.plugin.folderMonitor.stop();
                         this.plugin.folderMonitor.start();
+                        this.display();
+                    }));
+
+            if (this.plugin.settings.folderMonitor.usePolling) {
+                new Setting(containerEl)
+                    .setName('Check Interval')
+                    .setDesc('How often to scan for files that were missed (in seconds, minimum 5)')
+                    .addText(text => text
+                        .setPlaceholder('30')
+                        .setValue(this.plugin.settings.folderMonitor.checkInterval.toString())
+                        .onChange(async (value) => {
+                            const interval = parseInt(value);
+                            if (!isNaN(interval) && interval >= 5) {
+                                this.plugin.settings.folderMonitor.checkInterval = interval;
+                                await this.plugin.saveSettings();
+                                // Restart monitor with new interval
+                                this.plugin.folderMonitor.stop();
+                                this.plugin.folderMonitor.start();
+                            }
+                        }));
+            }
+
+            new Setting(containerEl)
+                .setName('PDF Handling')
+                .setDesc('How PDF pages are sent to the model. Each page becomes its own note. Sending the PDF directly only works with Gemini; other providers always get rendered pages.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('rasterize', 'Render pages to images')
+                    .addOption('inline', 'Send PDF directly (Gemini)')
+                    .setValue(this.plugin.settings.folderMonitor.pdfMode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.folderMonitor.pdfMode = value as 'rasterize' | 'inline';
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Attempts Per File')
+                .setDesc('How many times to try a file before moving it to the Failed folder. Retries wait longer each time (30s, 1m, 2m...).')
+                .addText(text => text
+                    .setPlaceholder('3')
+                    .setValue(this.plugin.settings.folderMonitor.maxAttempts.toString())
+                    .onChange(async (value) => {
+                        const attempts = parseInt(value);
+                        if (!isNaN(attempts) && attempts >= 1) {
+                            this.plugin.settings.folderMonitor.maxAttempts = attempts;
+                            await this.plugin.saveSettings();
+                        }
                     }));
 
             new Setting(containerEl)
-                .setName('File Pattern')
-                .setDesc('Pattern to match files (e.g., "scan-*" matches scan-001.png, scan-002.pdf). Use * for any characters, ? for single character.')
+                .setName('Failed Folder')
+                .setDesc('Where files that could not be processed are moved')
                 .addText(text => text
-                    .setPlaceholder('scan-*')
-                    .setValue(this.plugin.settings.folderMonitor.filePattern)
+                    .setPlaceholder('Inbox/Failed')
+                    .setValue(this.plugin.settings.folderMonitor.failedFolder)
                     .onChange(async (value) => {
-                        this.plugin.settings.folderMonitor.filePattern = value || '*';
+                        this.plugin.settings.folderMonitor.failedFolder = value;
                         await this.plugin.saveSettings();
                     }));
 
             new Setting(containerEl)
-                .setName('Output Folder')
-                .setDesc('Where to save processed notes. Supports YYYY, MM, DD placeholders.')
+                .setName('Failure Log Note')
+                .setDesc('Note that records each failed file with the error category and message. Leave empty to disable.')
                 .addText(text => text
-                    .setPlaceholder('Gemini Scans/Auto-Processed/YYYY-MM')
-                    .setValue(this.plugin.settings.folderMonitor.outputFolder)
+                    .setPlaceholder('Inbox/Failed/Failure Log.md')
+                    .setValue(this.plugin.settings.folderMonitor.failureLogPath)
                     .onChange(async (value) => {
-                        this.plugin.settings.folderMonitor.outputFolder = value;
+                        this.plugin.settings.folderMonitor.failureLogPath = value;
                         await this.plugin.saveSettings();
                     }));
 
+            // Multiple devices
+            containerEl.createEl('h3', { text: 'Devices' });
+            containerEl.createEl('p', {
+                text: 'On a synced vault, each device claims a file with a lock before processing it. Locks are best-effort: if two devices claim a file at nearly the same moment, sync can let both through. Choose a monitor host to make sure only one device processes monitored folders.',
+                cls: 'setting-item-description'
+            });
+
+            const device = this.plugin.getDevice();
             new Setting(containerEl)
-                .setName('Check Interval')
-                .setDesc('How often to check for new files (in seconds, minimum 5)')
+                .setName('This Device')
+                .setDesc('Name shown in lock files and the monitor host list')
                 .addText(text => text
-                    .setPlaceholder('30')
-                    .setValue(this.plugin.settings.folderMonitor.checkInterval.toString())
+                    .setPlaceholder('Desktop')
+                    .setValue(device.name)
                     .onChange(async (value) => {
-                        const interval = parseInt(value);
-                        if (!isNaN(interval) && interval >= 5) {
-                            this.plugin.settings.folderMonitor.checkInterval = interval;
+                        if (value.trim()) await this.plugin.renameDevice(value.trim());
+                    }));
+
+            new Setting(containerEl)
+                .setName('Monitor Host')
+                .setDesc('Only this device processes monitored folders. Other devices can still use Process Now from the dashboard.')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Any device');
+                    for (const known of this.plugin.settings.folderMonitor.devices) {
+                        dropdown.addOption(known.id, known.id === device.id ? `${known.name} (this device)` : known.name);
+                    }
+                    dropdown.setValue(this.plugin.settings.folderMonitor.hostDeviceId)
+                        .onChange(async (value) => {
+                            this.plugin.settings.folderMonitor.hostDeviceId = value;
                             await this.plugin.saveSettings();
-                            // Restart monitor with new interval
                             this.plugin.folderMonitor.stop();
                             this.plugin.folderMonitor.start();
-                        }
-                    }));
-
-            // File handling options
-            containerEl.createEl('h3', { text: 'File Handling' });
+                            this.display();
+                        });
+                });
 
             new Setting(containerEl)
-                .setName('After Processing Action')
-                .setDesc('What to do with original files after processing')
-                .addDropdown(dropdown => dropdown
-                    .addOption('move', 'Move to Processed folder')
-                    .addOption('delete', 'Delete original files')
-                    .setValue(this.plugin.settings.folderMonitor.deleteAfterProcessing ? 'delete' : 'move')
+                .setName('Lock Folder')
+                .setDesc('Where file claims are stored. It must be synced between devices.')
+                .addText(text => text
+                    .setPlaceholder('Inbox/Locks')
+                    .setValue(this.plugin.settings.folderMonitor.lockFolder)
                     .onChange(async (value) => {
-                        this.plugin.settings.folderMonitor.deleteAfterProcessing = (value === 'delete');
+                        this.plugin.settings.folderMonitor.lockFolder = value;
                         await this.plugin.saveSettings();
-                        this.display();
                     }));
 
-            if (!this.plugin.settings.folderMonitor.deleteAfterProcessing) {
-                new Setting(containerEl)
-                    .setName('Processed Folder')
-                    .setDesc('Where to move processed files')
-                    .addText(text => text
-                        .setPlaceholder('Inbox/Processed')
-                        .setValue(this.plugin.settings.folderMonitor.processedFolder)
-                        .onChange(async (value) => {
-                            this.plugin.settings.folderMonitor.processedFolder = value;
+            new Setting(containerEl)
+                .setName('Lock Duration')
+                .setDesc('Minutes before a claim from a device that stopped part way through can be taken over')
+                .addText(text => text
+                    .setPlaceholder('10')
+                    .setValue(this.plugin.settings.folderMonitor.lockMinutes.toString())
+                    .onChange(async (value) => {
+                        const minutes = parseInt(value);
+                        if (!isNaN(minutes) && minutes >= 1) {
+                            this.plugin.settings.folderMonitor.lockMinutes = minutes;
                             await this.plugin.saveSettings();
-                        }));
-            }
+                        }
+                    }));
 
-            // Notebook integration
-            containerEl.createEl('h3', { text: 'Notebook Integration' });
+            // Profiles
+            containerEl.createEl('h3', { text: 'Watched Folders' });
+            containerEl.createEl('p', {
+                text: 'Each profile watches one folder and has its own output folder, notebook, prompt and tags.',
+                cls: 'setting-item-description'
+            });
 
             new Setting(containerEl)
-                .setName('Use Notebook')
-                .setDesc('Assign auto-processed files to a specific notebook')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.folderMonitor.useNotebook)
-                    .onChange(async (value) => {
-                        this.plugin.settings.folderMonitor.useNotebook = value;
+                .setName('Add Profile')
+                .setDesc('Watch another folder')
+                .addButton(button => button
+                    .setButtonText('Add Profile')
+                    .onClick(async () => {
+                        this.plugin.settings.folderMonitor.profiles.push(this.plugin.createFolderMonitorProfile());
                         await this.plugin.saveSettings();
                         this.display();
                     }));
 
-            if (this.plugin.settings.folderMonitor.useNotebook) {
-                const activeNotebooks = this.plugin.settings.notebooks.filter(n => n.status === 'active');
-
-                if (activeNotebooks.length > 0) {
-                    new Setting(containerEl)
-                        .setName('Select Notebook')
-                        .setDesc('Which notebook to use for auto-processed files')
-                        .addDropdown(dropdown => {
-                            dropdown.addOption('', 'Select a notebook...');
-                            activeNotebooks.forEach(notebook => {
-                                dropdown.addOption(notebook.id, `${notebook.name} (Page ${notebook.currentPage})`);
-                            });
-                            dropdown.setValue(this.plugin.settings.folderMonitor.notebookId)
-                                .onChange(async (value) => {
-                                    this.plugin.settings.folderMonitor.notebookId = value;
-                                    await this.plugin.saveSettings();
-                                });
-                        });
+            this.plugin.settings.folderMonitor.profiles.forEach((profile, index) => {
+                this.displayFolderMonitorProfile(containerEl, profile, index);
+            });
 
-                    new Setting(containerEl)
-                        .setName('Auto-increment Pages')
-                        .setDesc('Automatically increment page numbers for each processed file')
-                        .addToggle(toggle => toggle
-                            .setValue(this.plugin.settings.folderMonitor.autoIncrementPages)
-                            .onChange(async (value) => {
-                                this.plugin.settings.folderMonitor.autoIncrementPages = value;
-                                await this.plugin.saveSettings();
-                            }));
-                } else {
-                    containerEl.createEl('p', {
-                        text: '⚠️ No active notebooks found. Create a notebook first.',
-                        cls: 'setting-item-description'
-                    });
-                }
-            }
+            // Processed file ledger
+            containerEl.createEl('h3', { text: 'Processed Files' });
+
+            const ledger = this.plugin.settings.processedLedger;
+            new Setting(containerEl)
+                .setName('Processed File Ledger')
+                .setDesc(`${ledger.length} file${ledger.length === 1 ? '' : 's'} recorded. Files are identified by their contents, so a file that is renamed or synced back into any watch folder is not processed again. Only the latest ${MAX_LEDGER_ENTRIES} are kept. Remove an entry to allow that file to be reprocessed.`)
+                .addButton(button => button
+                    .setButtonText('View')
+                    .setDisabled(ledger.length === 0)
+                    .onClick(() => this.showProcessedLedger()))
+                .addButton(button => button
+                    .setButtonText('Clear')
+                    .setWarning()
+                    .setDisabled(ledger.length === 0)
+                    .onClick(async () => {
+                        if (confirm(`Clear all ${ledger.length} ledger entries? Any of these files still in the watch folder will be processed again.`)) {
+                            await this.plugin.forgetProcessed(ledger.map(entry => entry.hash));
+                            new Notice('Processed file ledger cleared');
+                            this.display();
+                        }
+                    }));
+
+            const quarantined = this.plugin.settings.quarantinedFiles;
+            new Setting(containerEl)
+                .setName('Failed Files')
+                .setDesc(`${quarantined.length} file${quarantined.length === 1 ? '' : 's'} in the Failed folder. Re-queue moves them back to their watch folders to be tried again.`)
+                .addButton(button => button
+                    .setButtonText('Re-queue All')
+                    .setDisabled(quarantined.length === 0)
+                    .onClick(async () => {
+                        const count = await this.plugin.folderMonitor.requeueQuarantined();
+                        new Notice(`Re-queued ${count} failed file${count === 1 ? '' : 's'}`);
+                        this.display();
+                    }));
 
             // Status and control
             containerEl.createEl('h3', { text: 'Monitor Status' });
@@ -3788,13 +9348,8 @@ class GeminiSettingTab extends PluginSettingTab {
             const statusContainer = containerEl.createDiv({ cls: 'setting-item' });
             statusContainer.style.cssText = 'padding: 10px; background: var(--background-modifier-hover); border-radius: 8px;';
 
-            const lastProcessed = this.plugin.settings.folderMonitor.lastProcessedTime;
-            const lastProcessedText = lastProcessed ?
-                `Last check: ${window.moment(lastProcessed).fromNow()}` :
-                'Not yet run';
-
             statusContainer.createEl('p', {
-                text: `Status: ${this.plugin.folderMonitor?.isRunning() ? '🟢 Running' : '🔴 Stopped'}`, // FIXED
+                text: `Status: ${this.plugin.folderMonitor?.isRunning() ? '🟢 Running' : this.plugin.folderMonitor?.isHost() === false ? '⏸ Another device is the monitor host' : '🔴 Stopped'}`, // FIXED
                 cls: 'setting-item-description'
             });
 
@@ -3813,6 +9368,12 @@ class GeminiSettingTab extends PluginSettingTab {
                 }
             });
 
+            buttonContainer.createEl('button', {
+                text: '📊 Open Dashboard'
+            }).addEventListener('click', () => {
+                this.plugin.activateFolderMonitorView();
+            });
+
             buttonContainer.createEl('button', {
                 text: '🔄 Restart Monitor'
             }).addEventListener('click', () => {
@@ -3829,10 +9390,10 @@ class GeminiSettingTab extends PluginSettingTab {
             helpContainer.innerHTML = `
                 <p><strong>Setup Instructions:</strong></p>
                 <ol>
-                    <li>Create an "Inbox" folder in your vault for incoming files</li>
+                    <li>Create an "Inbox" folder in your vault for incoming files (one per scanner or device if they need different handling)</li>
                     <li>Set up your scanner/camera app to save files there with a consistent naming pattern (e.g., scan-001.png, scan-002.pdf)</li>
-                    <li>Configure the file pattern to match your naming scheme</li>
-                    <li>The monitor will check every ${this.plugin.settings.folderMonitor.checkInterval} seconds for new files</li>
+                    <li>Add a profile for each folder and configure its file pattern to match your naming scheme</li>
+                    <li>New files are picked up as soon as they appear and have finished syncing${this.plugin.settings.folderMonitor.usePolling ? ` (the folder is also rescanned every ${this.plugin.settings.folderMonitor.checkInterval} seconds)` : ''}</li>
                     <li>Matching files will be processed through Gemini and saved as notes</li>
                 </ol>
                 <p><strong>File Pattern Examples:</strong></p>
@@ -3846,6 +9407,263 @@ class GeminiSettingTab extends PluginSettingTab {
         }
     }
 
+    // Pick up changes that affect the filesystem watchers
+    restartFolderMonitor() {
+        if (this.plugin.folderMonitor?.isRunning()) {
+            this.plugin.folderMonitor.stop();
+            this.plugin.folderMonitor.start();
+        }
+    }
+
+    displayFolderMonitorProfile(containerEl: HTMLElement, profile: FolderMonitorProfile, index: number) {
+        const profileEl = containerEl.createDiv();
+        profileEl.style.cssText = 'border: 1px solid var(--background-modifier-border); border-radius: 8px; padding: 0 12px; margin-bottom: 12px;';
+
+        const lastRun = profile.lastProcessedTime ? `Last run: ${window.moment(profile.lastProcessedTime).fromNow()}` : 'Not yet run';
+        const state = !profile.enabled ? '⏸ Disabled' : profile.paused ? '⏸ Paused' : this.plugin.folderMonitor?.isProcessing(profile.id) ? '⏳ Processing' : '🟢 Watching';
+
+        new Setting(profileEl)
+            .setName(profile.name)
+            .setDesc(`${state} | ${lastRun}`)
+            .addText(text => text
+                .setPlaceholder('Profile name')
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addToggle(toggle => toggle
+                .setTooltip('Enable this profile')
+                .setValue(profile.enabled)
+                .onChange(async (value) => {
+                    profile.enabled = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Check Now')
+                .setDisabled(!profile.enabled)
+                .onClick(async () => {
+                    new Notice(`Checking ${profile.name}...`);
+                    await this.plugin.folderMonitor.checkProfile(profile);
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Delete')
+                .setWarning()
+                .onClick(async () => {
+                    if (confirm(`Delete folder monitor profile "${profile.name}"? Files and notes are not affected.`)) {
+                        this.plugin.settings.folderMonitor.profiles.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }
+                }));
+
+        if (Platform.isDesktopApp || profile.external) {
+            new Setting(profileEl)
+                .setName('Outside the Vault')
+                .setDesc('Watch a folder anywhere on this computer (desktop only). Matching files are imported into the attachment folder before processing.')
+                .addToggle(toggle => toggle
+                    .setValue(profile.external)
+                    .onChange(async (value) => {
+                        profile.external = value;
+                        // Outside the vault a relative Processed folder sits inside the watch folder,
+                        // so the vault default would become <watch folder>/Inbox/Processed
+                        if (value && profile.processedFolder === 'Inbox/Processed') profile.processedFolder = 'Processed';
+                        await this.plugin.saveSettings();
+                        this.restartFolderMonitor();
+                        this.display();
+                    }));
+        }
+
+        new Setting(profileEl)
+            .setName('Watch Folder')
+            .setDesc(profile.external
+                ? 'Absolute path of the folder to monitor, e.g. ~/Scans or C:\\Scans'
+                : 'Folder to monitor for new files (relative to vault root)')
+            .addText(text => {
+                text.setPlaceholder(profile.external ? '~/Scans' : 'Inbox')
+                    .setValue(profile.watchFolder)
+                    .onChange(async (value) => {
+                        profile.watchFolder = value;
+                        await this.plugin.saveSettings();
+                    });
+                // Re-create the filesystem watcher once the path has been typed, not on every keystroke
+                text.inputEl.addEventListener('blur', () => {
+                    if (profile.external) this.restartFolderMonitor();
+                });
+            });
+
+        new Setting(profileEl)
+            .setName('File Pattern')
+            .setDesc('Pattern to match files (e.g., "scan-*" matches scan-001.png, scan-002.pdf). Use * for any characters, ? for single character.')
+            .addText(text => text
+                .setPlaceholder('scan-*')
+                .setValue(profile.filePattern)
+                .onChange(async (value) => {
+                    profile.filePattern = value || '*';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileEl)
+            .setName('Output Folder')
+            .setDesc('Where to save processed notes. Supports YYYY, MM, DD placeholders.')
+            .addText(text => text
+                .setPlaceholder('Gemini Scans/Auto-Processed/YYYY-MM')
+                .setValue(profile.outputFolder)
+                .onChange(async (value) => {
+                    profile.outputFolder = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileEl)
+            .setName('After Processing Action')
+            .setDesc('What to do with original files after processing')
+            .addDropdown(dropdown => dropdown
+                .addOption('move', 'Move to Processed folder')
+                .addOption('delete', 'Delete original files')
+                .setValue(profile.deleteAfterProcessing ? 'delete' : 'move')
+                .onChange(async (value) => {
+                    profile.deleteAfterProcessing = (value === 'delete');
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        if (!profile.deleteAfterProcessing) {
+            new Setting(profileEl)
+                .setName('Processed Folder')
+                .setDesc(profile.external
+                    ? 'Where to move processed originals: an absolute path, or a path relative to the watch folder (e.g. "Processed" is a folder inside the watch folder)'
+                    : 'Where to move processed files (relative to vault root)')
+                .addText(text => text
+                    .setPlaceholder(profile.external ? 'Processed' : 'Inbox/Processed')
+                    .setValue(profile.processedFolder)
+                    .onChange(async (value) => {
+                        profile.processedFolder = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        const activeNotebooks = this.plugin.settings.notebooks.filter(n => n.status === 'active' || n.id === profile.notebookId);
+        new Setting(profileEl)
+            .setName('Notebook')
+            .setDesc('Assign files from this folder to a notebook')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'No notebook');
+                activeNotebooks.forEach(notebook => {
+                    dropdown.addOption(notebook.id, `${notebook.name} (Page ${notebook.currentPage})`);
+                });
+                dropdown.setValue(profile.notebookId)
+                    .onChange(async (value) => {
+                        profile.notebookId = value;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        if (profile.notebookId) {
+            new Setting(profileEl)
+                .setName('Auto-increment Pages')
+                .setDesc('Automatically increment page numbers for each processed file')
+                .addToggle(toggle => toggle
+                    .setValue(profile.autoIncrementPages)
+                    .onChange(async (value) => {
+                        profile.autoIncrementPages = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(profileEl)
+            .setName('Tags')
+            .setDesc('Comma-separated tags added to notes from this folder, on top of the global custom tags')
+            .addText(text => text
+                .setPlaceholder('e.g., office-scanner')
+                .setValue(profile.tags)
+                .onChange(async (value) => {
+                    profile.tags = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(profileEl)
+            .setName('Filename Patterns')
+            .setDesc('Regular expressions matched against the file name (without extension), one per line; the first match wins. Named groups set metadata: notebook (name or id) and page override the notebook and page counter above, date sets the note\'s created date, tags adds tags (separated by commas, + or spaces).')
+            .addTextArea(text => {
+                text.setPlaceholder('(?<notebook>NB\\d+)_p(?<page>\\d+)_(?<date>\\d{4}-\\d{2}-\\d{2})')
+                    .setValue(profile.filenamePatterns)
+                    .onChange(async (value) => {
+                        profile.filenamePatterns = value;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 3;
+                text.inputEl.style.width = '100%';
+                text.inputEl.style.fontFamily = 'var(--font-monospace)';
+            });
+
+        new Setting(profileEl)
+            .setName('Prompt')
+            .setDesc('Replaces the main prompt for files from this folder. Leave empty to use the main prompt.')
+            .addTextArea(text => {
+                text.setPlaceholder('Leave empty to use the main prompt')
+                    .setValue(profile.prompt)
+                    .onChange(async (value) => {
+                        profile.prompt = value;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 4;
+                text.inputEl.style.width = '100%';
+            });
+    }
+
+    showProcessedLedger() {
+        const modal = new Modal(this.app);
+        modal.titleEl.setText('Processed File Ledger');
+
+        const content = modal.contentEl;
+        const list = content.createDiv();
+        list.style.cssText = 'max-height: 60vh; overflow-y: auto;';
+
+        const renderEntries = () => {
+            list.empty();
+            const entries = [...this.plugin.settings.processedLedger].sort((a, b) => b.processedAt - a.processedAt);
+
+            if (entries.length === 0) {
+                list.createEl('p', { text: 'No processed files recorded.', cls: 'setting-item-description' });
+                return;
+            }
+
+            for (const entry of entries) {
+                const row = list.createDiv();
+                row.style.cssText = 'display: flex; align-items: center; gap: 10px; padding: 8px 0; border-bottom: 1px solid var(--background-modifier-border);';
+
+                const details = row.createDiv();
+                details.style.cssText = 'flex: 1; min-width: 0;';
+                details.createEl('div', { text: entry.sourcePath }).style.cssText = 'font-weight: 500; word-break: break-all;';
+
+                const meta = details.createEl('div', { cls: 'setting-item-description' });
+                meta.setText(`${window.moment(entry.processedAt).format('YYYY-MM-DD HH:mm')} · ${entry.model} · ${entry.hash.substring(0, 12)}`);
+
+                for (const notePath of entry.notePaths) {
+                    const link = details.createEl('a', { text: notePath, href: '#' });
+                    link.style.cssText = 'display: block; font-size: 0.9em;';
+                    link.addEventListener('click', (e) => {
+                        e.preventDefault();
+                        this.app.workspace.openLinkText(notePath, '', false);
+                        modal.close();
+                    });
+                }
+
+                row.createEl('button', { text: 'Remove' }).addEventListener('click', async () => {
+                    await this.plugin.forgetProcessed([entry.hash]);
+                    renderEntries();
+                });
+            }
+        };
+
+        renderEntries();
+        modal.onClose = () => this.display();
+        modal.open();
+    }
+
     getTriggerUsageDescription(keyword: string, action: string): string {
         const descriptions: Record<string, string> = {
             'Research': "Deep research on topics you list below the underlined word.",